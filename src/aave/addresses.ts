@@ -19,17 +19,70 @@ export const AAVE_POOL_ABI = [
   'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
   'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
   'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event UserEModeSet(address indexed user, uint8 categoryId)',
+  'event ReserveUsedAsCollateralEnabled(address indexed reserve, address indexed user)',
+  'event ReserveUsedAsCollateralDisabled(address indexed reserve, address indexed user)',
+  'event RebalanceStableBorrowRate(address indexed reserve, address indexed user)',
+  'event SwapBorrowRateMode(address indexed reserve, address indexed user, uint8 interestRateMode)',
   
   // Functions
   'function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken) external',
   'function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
-  'function getReserveData(address asset) external view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+  'function getReservesList() external view returns (address[])',
+  'function getUserConfiguration(address user) external view returns (tuple(uint256 data))',
+  'function getReserveData(address asset) external view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+  
+  // E-Mode (Aave v3.2+ category layout)
+  'function getUserEMode(address user) external view returns (uint256)',
+  'function getEModeCategoryCollateralConfig(uint8 id) external view returns (tuple(uint16 ltv, uint16 liquidationThreshold, uint16 liquidationBonus))',
+  'function getEModeCategoryCollateralBitmap(uint8 id) external view returns (uint128)',
+  'function getEModeCategoryLabel(uint8 id) external view returns (string)'
+];
+
+// Aave PoolAddressesProvider ABI (minimal interface)
+export const POOL_ADDRESSES_PROVIDER_ABI = [
+  'function getPoolConfigurator() external view returns (address)'
+];
+
+// Aave PoolConfigurator ABI (risk parameter governance events)
+export const POOL_CONFIGURATOR_ABI = [
+  'event CollateralConfigurationChanged(address indexed asset, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus)',
+  'event ReserveFactorChanged(address indexed asset, uint256 oldReserveFactor, uint256 newReserveFactor)',
+  'event LiquidationProtocolFeeChanged(address indexed asset, uint256 oldFee, uint256 newFee)',
+  'event ReserveActive(address indexed asset, bool active)',
+  'event ReserveFrozen(address indexed asset, bool frozen)',
+  'event ReservePaused(address indexed asset, bool paused)',
+  'event EModeCategoryAdded(uint8 indexed categoryId, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, address oracle, string label)',
+  'event AssetCollateralInEModeChanged(address indexed asset, uint8 categoryId, bool collateral)'
 ];
 
 // Aave Oracle ABI (minimal interface)
 export const AAVE_ORACLE_ABI = [
   'function getAssetPrice(address asset) external view returns (uint256)',
-  'function getAssetsPrices(address[] calldata assets) external view returns (uint256[] memory)'
+  'function getAssetsPrices(address[] calldata assets) external view returns (uint256[] memory)',
+  'function getSourceOfAsset(address asset) external view returns (address)',
+  'event AssetSourceUpdated(address indexed asset, address indexed source)'
+];
+
+// Chainlink EACAggregatorProxy / OCR aggregator ABI (price reads and update events)
+export const CHAINLINK_AGGREGATOR_ABI = [
+  'function aggregator() external view returns (address)',
+  'function decimals() external view returns (uint8)',
+  'function description() external view returns (string)',
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)',
+  'event NewTransmission(uint32 indexed aggregatorRoundId, int192 answer, address transmitter, uint32 observationsTimestamp, int192[] observations, bytes observers, int192 juelsPerFeeCoin, bytes32 configDigest, uint40 epochAndRound)'
+];
+
+// Aave CAPO price cap adapter ABI (LST and stablecoin sources wrapping a Chainlink feed)
+export const PRICE_CAP_ADAPTER_ABI = [
+  'function BASE_TO_USD_AGGREGATOR() external view returns (address)',
+  'function RATIO_PROVIDER() external view returns (address)',
+  'function RATIO_DECIMALS() external view returns (uint8)',
+  'function getRatio() external view returns (int256)',
+  'function getSnapshotRatio() external view returns (uint256)',
+  'function getSnapshotTimestamp() external view returns (uint256)',
+  'function getMaxRatioGrowthPerSecond() external view returns (uint256)'
 ];
 
 // ERC20 ABI (minimal interface for balance checks)
@@ -41,6 +94,17 @@ export const ERC20_ABI = [
   'function approve(address spender, uint256 amount) external returns (bool)'
 ];
 
+// Aave aToken / variable debt token ABI (scaled balances)
+export const SCALED_BALANCE_TOKEN_ABI = [
+  'function scaledBalanceOf(address user) external view returns (uint256)'
+];
+
+// Aave aToken ABI (collateral transfer events)
+export const ATOKEN_ABI = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event BalanceTransfer(address indexed from, address indexed to, uint256 value, uint256 index)'
+];
+
 // Asset addresses on Base network (must match .env configuration)
 export const ASSET_ADDRESSES: Record<string, string> = {
   'WETH': '0x4200000000000000000000000000000000000006',
@@ -0,0 +1,143 @@
+import { ethers } from 'ethers';
+import { getAaveAddresses, AAVE_POOL_ABI, ERC20_ABI } from './addresses';
+import { getTokenSymbol, registerToken } from '../tokens';
+import logger from '../logging/logger';
+
+// Reserve listed on the Aave Pool
+export interface ReserveInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+  id: number;
+  aTokenAddress: string;
+  variableDebtTokenAddress: string;
+  stableDebtTokenAddress: string;
+}
+
+// Discovers every reserve listed on the Pool and registers it in the token catalog
+class ReserveDiscovery {
+  private reserves: Map<string, ReserveInfo> = new Map();
+
+  // Get reserve by symbol
+  get(symbol: string): ReserveInfo | undefined {
+    return this.reserves.get(symbol);
+  }
+
+  // Get reserve by underlying asset address
+  getByAddress(address: string): ReserveInfo | undefined {
+    for (const reserve of this.reserves.values()) {
+      if (reserve.address.toLowerCase() === address.toLowerCase()) {
+        return reserve;
+      }
+    }
+    return undefined;
+  }
+
+  // Get reserve by Pool reserve id (bit position in user configuration)
+  getById(id: number): ReserveInfo | undefined {
+    for (const reserve of this.reserves.values()) {
+      if (reserve.id === id) {
+        return reserve;
+      }
+    }
+    return undefined;
+  }
+
+  // Get all discovered reserves
+  getAll(): ReserveInfo[] {
+    return Array.from(this.reserves.values());
+  }
+
+  // Get symbols of all discovered reserves
+  getSymbols(): string[] {
+    return Array.from(this.reserves.keys());
+  }
+
+  // Check if discovery has run successfully
+  isLoaded(): boolean {
+    return this.reserves.size > 0;
+  }
+
+  // Store reserve info (used by discovery and tests)
+  set(reserve: ReserveInfo): void {
+    this.reserves.set(reserve.symbol, reserve);
+    registerToken(reserve.symbol, reserve.address, reserve.decimals);
+  }
+
+  // Fetch the reserve list from the Pool and resolve token metadata
+  async discover(provider: ethers.JsonRpcProvider): Promise<ReserveInfo[]> {
+    const poolContract = new ethers.Contract(
+      getAaveAddresses().pool,
+      AAVE_POOL_ABI,
+      provider
+    );
+
+    try {
+      const addresses: string[] = await poolContract.getReservesList();
+
+      for (const address of addresses) {
+        try {
+          await this.discoverReserve(provider, poolContract, address);
+        } catch (error) {
+          logger.error('Failed to resolve reserve metadata', { address, error });
+        }
+      }
+
+      logger.info('Reserve discovery complete', {
+        listed: addresses.length,
+        discovered: this.reserves.size,
+        symbols: this.getSymbols().join(',')
+      });
+    } catch (error) {
+      logger.error('Failed to fetch reserves list from Pool', { error });
+    }
+
+    return this.getAll();
+  }
+
+  // Resolve symbol, decimals and token addresses for one reserve
+  private async discoverReserve(
+    provider: ethers.JsonRpcProvider,
+    poolContract: ethers.Contract,
+    address: string
+  ): Promise<void> {
+    const tokenContract = new ethers.Contract(address, ERC20_ABI, provider);
+    const [reserveData, decimals, onChainSymbol] = await Promise.all([
+      poolContract.getReserveData(address),
+      tokenContract.decimals(),
+      tokenContract.symbol()
+    ]);
+
+    // Keep catalog symbols stable; disambiguate on-chain symbols that collide
+    let symbol = getTokenSymbol(address) || (onChainSymbol as string);
+    const existing = this.reserves.get(symbol);
+    if (existing && existing.address.toLowerCase() !== address.toLowerCase()) {
+      symbol = `${symbol}-${address.slice(2, 8)}`;
+      logger.warn('Reserve symbol collision, using suffixed symbol', { address, symbol });
+    }
+
+    this.set({
+      symbol,
+      address,
+      decimals: Number(decimals),
+      id: Number(reserveData.id),
+      aTokenAddress: reserveData.aTokenAddress,
+      variableDebtTokenAddress: reserveData.variableDebtTokenAddress,
+      stableDebtTokenAddress: reserveData.stableDebtTokenAddress
+    });
+  }
+
+  // Clear discovered reserves (for testing)
+  clear(): void {
+    this.reserves.clear();
+  }
+}
+
+// Restrict assets to a TARGET_* filter (an empty filter allows every asset)
+export function filterTargetAssets(assets: string[], targets: string[]): string[] {
+  if (targets.length === 0) return assets;
+  return assets.filter(asset => targets.includes(asset));
+}
+
+// Export singleton instance
+export const reserveDiscovery = new ReserveDiscovery();
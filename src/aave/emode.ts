@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+import { getAaveAddresses, AAVE_POOL_ABI } from './addresses';
+import { Borrower } from '../state/borrower';
+import { getMulticall } from '../rpc/multicall';
+import logger from '../logging/logger';
+
+const POOL_INTERFACE = new ethers.Interface(AAVE_POOL_ABI);
+
+// Aave expresses percentages in basis points with 2 decimals (10000 = 100%)
+const PERCENTAGE_FACTOR = 10000;
+
+// E-Mode category parameters (percentages as fractions)
+export interface EModeCategory {
+  id: number;
+  label: string;
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number; // Bonus on top of 100%, e.g. 0.01 = 1% bonus
+  collateralBitmap: bigint; // Bit i set = reserve with id i is collateral in this category
+  updatedAt: number;
+}
+
+// Check if a reserve counts as collateral in an E-Mode category
+export function isCollateralInEMode(category: EModeCategory, reserveId: number): boolean {
+  return ((category.collateralBitmap >> BigInt(reserveId)) & 1n) === 1n;
+}
+
+// E-Mode category cache, loaded lazily as borrowers in each category are seen
+class EModeCategoryCache {
+  private categories: Map<number, EModeCategory> = new Map();
+  private loading: Map<number, Promise<EModeCategory | undefined>> = new Map();
+
+  // Get cached category
+  get(id: number): EModeCategory | undefined {
+    return this.categories.get(id);
+  }
+
+  // Get all cached categories
+  getAll(): EModeCategory[] {
+    return Array.from(this.categories.values());
+  }
+
+  // Store category (used by refresh and tests)
+  set(category: EModeCategory): void {
+    this.categories.set(category.id, category);
+  }
+
+  // Fetch category parameters from the Pool
+  async refreshCategory(
+    provider: ethers.JsonRpcProvider,
+    id: number
+  ): Promise<EModeCategory | undefined> {
+    if (id === 0) return undefined; // Category 0 means E-Mode disabled
+
+    const poolContract = new ethers.Contract(
+      getAaveAddresses().pool,
+      AAVE_POOL_ABI,
+      provider
+    );
+
+    try {
+      const [collateralConfig, collateralBitmap, label] = await Promise.all([
+        poolContract.getEModeCategoryCollateralConfig(id),
+        poolContract.getEModeCategoryCollateralBitmap(id),
+        poolContract.getEModeCategoryLabel(id)
+      ]);
+
+      const rawBonus = Number(collateralConfig.liquidationBonus);
+      const category: EModeCategory = {
+        id,
+        label,
+        ltv: Number(collateralConfig.ltv) / PERCENTAGE_FACTOR,
+        liquidationThreshold: Number(collateralConfig.liquidationThreshold) / PERCENTAGE_FACTOR,
+        liquidationBonus: rawBonus > PERCENTAGE_FACTOR ? (rawBonus - PERCENTAGE_FACTOR) / PERCENTAGE_FACTOR : 0,
+        collateralBitmap: BigInt(collateralBitmap),
+        updatedAt: Date.now()
+      };
+      this.categories.set(id, category);
+
+      logger.info('E-Mode category loaded', {
+        id,
+        label,
+        liquidationThreshold: category.liquidationThreshold,
+        liquidationBonus: category.liquidationBonus
+      });
+
+      return category;
+    } catch (error) {
+      logger.error('Failed to load E-Mode category', { id, error });
+      return undefined;
+    }
+  }
+
+  // Load category only if not cached yet
+  // Concurrent callers share one in-flight load
+  async ensureCategory(provider: ethers.JsonRpcProvider, id: number): Promise<void> {
+    if (id === 0 || this.categories.has(id)) return;
+
+    let pending = this.loading.get(id);
+    if (!pending) {
+      pending = this.refreshCategory(provider, id).finally(() => this.loading.delete(id));
+      this.loading.set(id, pending);
+    }
+    await pending;
+  }
+
+  // Clear cache (for testing)
+  clear(): void {
+    this.categories.clear();
+  }
+}
+
+// Export singleton instance
+export const eModeCache = new EModeCategoryCache();
+
+// Read a borrower's E-Mode category from the Pool and load its parameters
+export async function refreshBorrowerEMode(
+  provider: ethers.JsonRpcProvider,
+  borrower: Borrower
+): Promise<void> {
+  // Batched with other hydration reads via Multicall3
+  const categoryId = await getMulticall(provider).call<bigint>(
+    getAaveAddresses().pool,
+    POOL_INTERFACE,
+    'getUserEMode',
+    [borrower.address]
+  );
+
+  if (categoryId === null) {
+    logger.error('Failed to fetch user E-Mode', { address: borrower.address });
+    return;
+  }
+
+  borrower.eModeCategory = Number(categoryId);
+  await eModeCache.ensureCategory(provider, borrower.eModeCategory);
+}
@@ -1,23 +1,82 @@
 import { ethers } from 'ethers';
 import { EventEmitter } from 'events';
 import { getConfig } from '../config/env';
-import { getAaveAddresses, AAVE_POOL_ABI, ERC20_ABI } from './addresses';
-import { getTokenAddress } from '../tokens';
+import { getAaveAddresses, AAVE_POOL_ABI, AAVE_ORACLE_ABI, ATOKEN_ABI, ERC20_ABI, POOL_ADDRESSES_PROVIDER_ABI, POOL_CONFIGURATOR_ABI } from './addresses';
+import { getTokenSymbol } from '../tokens';
+import { reserveDiscovery } from './discovery';
+import { fetchUserBalances, UserBalances } from './hydration';
+import { EventPipeline } from './pipeline';
+import { eModeCache, refreshBorrowerEMode } from './emode';
+import { oracleSources } from './sources';
 import { borrowerRegistry } from '../state/registry';
-import { BorrowerState, BorrowerBalance } from '../state/borrower';
+import { BorrowerState } from '../state/borrower';
+import { BlockCheckpoint } from '../state/checkpoint';
 import { getTotalDebtUSD, getOracleHealthFactor } from '../execution/sim';
 import { sendTelegram } from '../notify/telegram';
+import { getMulticall } from '../rpc/multicall';
 import logger from '../logging/logger';
 
+const ORACLE_INTERFACE = new ethers.Interface(AAVE_ORACLE_ABI);
+const ERC20_INTERFACE = new ethers.Interface(ERC20_ABI);
+
+// Core Pool events, replayed after a gap in the live subscription
+const POOL_EVENTS = ['Borrow', 'Repay', 'LiquidationCall', 'Supply', 'Withdraw'];
+
+// Block range per queryFilter call during backfill (provider log limits)
+const BACKFILL_BATCH_SIZE = 2000;
+
+// Replay passes before handing over to live listeners (head keeps moving during replay)
+const MAX_BACKFILL_ROUNDS = 3;
+
+// Blocks between queryFilter checks of the live Pool filters (dropped filters fail silently)
+const RECONCILE_INTERVAL_BLOCKS = 20;
+
+// Pool logs remembered for dedup between live delivery and replay
+const MAX_RECENT_POOL_LOGS = 5000;
+
 // Aave event listener
 export class AaveEventListener extends EventEmitter {
   private provider: ethers.JsonRpcProvider;
   private poolContract: ethers.Contract;
+  private configuratorContract?: ethers.Contract;
+  private oracleContract?: ethers.Contract;
+  private aTokenContracts: ethers.Contract[] = [];
+  private pipeline?: EventPipeline;
+  private checkpoint: BlockCheckpoint;
+  private needsResync: boolean = false;
+  private resyncing: boolean = false;
+  private reconciling: boolean = false;
+  private initialBackfillDone: boolean = false;
+  private reconciledBlock: number = 0; // Pool events up to here were checked against queryFilter
+  private blockHandler = (blockNumber: number): void => {
+    if (this.initialBackfillDone) {
+      if (this.needsResync) {
+        this.resync().catch(error => {
+          logger.error('Error resyncing Pool event listeners', { error });
+        });
+      } else if (this.getReconcileTarget(blockNumber) - this.reconciledBlock >= RECONCILE_INTERVAL_BLOCKS) {
+        this.reconcile().then(missed => {
+          // Live filters that miss logs are dead (ethers swallows their poll errors)
+          if (missed > 0) this.needsResync = true;
+        }).catch(error => {
+          logger.error('Error reconciling Pool events', { error });
+        });
+      }
+    }
+    this.pipeline?.onBlock(blockNumber);
+  };
+  private errorHandler = (error: Error): void => {
+    logger.warn('Provider error, Pool filters will be recreated on the next block', { error });
+    this.needsResync = true;
+  };
+  private recentTransfers: Set<string> = new Set(); // txHash:from:to already handled
+  private recentPoolLogs: Set<string> = new Set(); // blockHash:txHash:index already submitted
   private isListening: boolean = false;
   
   constructor(provider: ethers.JsonRpcProvider) {
     super();
     this.provider = provider;
+    this.checkpoint = new BlockCheckpoint(getConfig().checkpointFile);
     
     const addresses = getAaveAddresses();
     this.poolContract = new ethers.Contract(
@@ -27,8 +86,8 @@ export class AaveEventListener extends EventEmitter {
     );
   }
   
-  // Start listening to events
-  async startListening(): Promise<void> {
+  // Start listening to events (resumeFromBlock: replay from here if older than the checkpoint)
+  async startListening(resumeFromBlock?: number): Promise<void> {
     if (this.isListening) {
       logger.warn('Already listening to Aave events');
       return;
@@ -40,53 +99,437 @@ export class AaveEventListener extends EventEmitter {
       confirmations: config.eventConfirmations
     });
     
-    // Listen to Borrow events
-    this.poolContract.on('Borrow', async (reserve, user, onBehalfOf, amount, _interestRateMode, _borrowRate, _referralCode, event) => {
-      try {
-        await this.handleBorrowEvent(reserve, user, onBehalfOf, amount, event);
-      } catch (error) {
-        logger.error('Error handling Borrow event', { error });
-      }
+    // Track blocks for confirmation depth and reorg detection
+    this.pipeline = new EventPipeline(this.provider, config.eventConfirmations);
+    this.pipeline.on('reorg', (users: string[]) => {
+      this.handleReorgedBorrowers(users).catch(error => {
+        logger.error('Error re-hydrating borrowers after reorg', { error });
+      });
     });
+    this.pipeline.on('processed', (blockNumber: number) => this.saveCheckpoint(blockNumber));
+    this.provider.on('block', this.blockHandler);
+    this.provider.on('error', this.errorHandler);
     
-    // Listen to Repay events
-    this.poolContract.on('Repay', async (reserve, user, repayer, amount, _useATokens, event) => {
-      try {
-        await this.handleRepayEvent(reserve, user, repayer, amount, event);
-      } catch (error) {
-        logger.error('Error handling Repay event', { error });
-      }
+    // Listen live before replaying so nothing falls between the two; dedup absorbs the overlap
+    this.reconciledBlock = await this.provider.getBlockNumber();
+    this.startPoolListening();
+    
+    // Listen to aToken transfers (collateral moving between accounts)
+    this.startATokenListening();
+    
+    // Listen to PoolConfigurator risk parameter changes
+    await this.startConfiguratorListening();
+    
+    // Listen to AaveOracle price source changes
+    this.startOracleListening();
+    
+    // Replay events missed while the bot was down
+    await this.backfill(resumeFromBlock);
+    
+    this.initialBackfillDone = true;
+    this.isListening = true;
+    logger.info('Aave event listeners started');
+  }
+  
+  // Listen to the core Pool events and balance-changing side events
+  private startPoolListening(): void {
+    for (const eventName of POOL_EVENTS) {
+      this.poolContract.on(eventName, (...args: any[]) => {
+        const event: ethers.ContractEventPayload = args[args.length - 1];
+        if (this.isDuplicatePoolLog(event.log)) return;
+        this.submitPoolEvent(eventName, args.slice(0, -1), event.log);
+      });
+    }
+    
+    // Listen to UserEModeSet events (E-Mode category changes)
+    this.poolContract.on('UserEModeSet', (user, categoryId, event) => {
+      this.submit('UserEModeSet', event.log, [user], () =>
+        this.handleUserEModeSetEvent(user, Number(categoryId), event.log));
     });
     
-    // Listen to LiquidationCall events
-    this.poolContract.on('LiquidationCall', async (collateralAsset, debtAsset, user, debtToCover, liquidatedCollateralAmount, _liquidator, _receiveAToken, event) => {
-      try {
-        await this.handleLiquidationEvent(collateralAsset, debtAsset, user, debtToCover, liquidatedCollateralAmount, event);
-      } catch (error) {
-        logger.error('Error handling LiquidationCall event', { error });
+    // Listen to collateral toggles and borrow rate changes
+    const balanceChangeEvents = [
+      'ReserveUsedAsCollateralEnabled',
+      'ReserveUsedAsCollateralDisabled',
+      'RebalanceStableBorrowRate',
+      'SwapBorrowRateMode'
+    ];
+    
+    for (const eventName of balanceChangeEvents) {
+      this.poolContract.on(eventName, (...args: any[]) => {
+        const reserve: string = args[0];
+        const user: string = args[1];
+        const event: ethers.ContractEventPayload = args[args.length - 1];
+        this.submit(eventName, event.log, [user], () =>
+          this.handleBalanceChangeEvent(eventName, reserve, [user], event.log));
+      });
+    }
+  }
+  
+  // Route a core Pool event (live or replayed) to its handler through the pipeline
+  private submitPoolEvent(eventName: string, args: any[], log: ethers.Log): Promise<void> {
+    switch (eventName) {
+      case 'Borrow': {
+        const [reserve, user, onBehalfOf, amount] = args;
+        return this.submit(eventName, log, [onBehalfOf], () =>
+          this.handleBorrowEvent(reserve, user, onBehalfOf, amount, log));
       }
-    });
+      case 'Repay': {
+        const [reserve, user, repayer, amount, useATokens] = args;
+        return this.submit(eventName, log, [user], () =>
+          this.handleRepayEvent(reserve, user, repayer, amount, useATokens, log));
+      }
+      case 'LiquidationCall': {
+        const [collateralAsset, debtAsset, user, debtToCover, liquidatedCollateralAmount] = args;
+        return this.submit(eventName, log, [user], () =>
+          this.handleLiquidationEvent(collateralAsset, debtAsset, user, debtToCover, liquidatedCollateralAmount, log));
+      }
+      case 'Supply': {
+        const [reserve, user, onBehalfOf, amount] = args;
+        return this.submit(eventName, log, [onBehalfOf], () =>
+          this.handleSupplyEvent(reserve, user, onBehalfOf, amount, log));
+      }
+      case 'Withdraw': {
+        const [reserve, user, to, amount] = args;
+        return this.submit(eventName, log, [user], () =>
+          this.handleWithdrawEvent(reserve, user, to, amount, log));
+      }
+      default:
+        return Promise.resolve();
+    }
+  }
+  
+  // Whether a core Pool log was already submitted (live delivery and replay overlap)
+  // Removed logs always pass so the pipeline can roll them back
+  private isDuplicatePoolLog(log: ethers.Log): boolean {
+    if (log.removed) return false;
+    const key = `${log.blockHash}:${log.transactionHash}:${log.index}`;
+    if (this.recentPoolLogs.has(key)) return true;
+    this.recentPoolLogs.add(key);
+    if (this.recentPoolLogs.size > MAX_RECENT_POOL_LOGS) {
+      const oldest = this.recentPoolLogs.values().next().value;
+      if (oldest) this.recentPoolLogs.delete(oldest);
+    }
+    return false;
+  }
+  
+  // Replay Pool events between the checkpoint and the chain head through the live handlers
+  async backfill(resumeFromBlock?: number): Promise<void> {
+    const config = getConfig();
+    let lastProcessed = this.checkpoint.get() ?? this.checkpoint.load();
+    if (resumeFromBlock !== undefined && (lastProcessed === null || resumeFromBlock < lastProcessed)) {
+      lastProcessed = resumeFromBlock;
+    }
+    if (lastProcessed === null) {
+      logger.info('No block checkpoint found, skipping event backfill');
+      return;
+    }
+    
+    // Keep replaying until the head stops moving so nothing falls between replay and live listening
+    this.reconciledBlock = lastProcessed;
+    let fromBlock = lastProcessed + 1;
+    try {
+      for (let round = 0; round < MAX_BACKFILL_ROUNDS; round++) {
+        const headBlock = await this.provider.getBlockNumber();
+        // Older gaps are covered by the seed scan
+        fromBlock = Math.max(fromBlock, headBlock - config.seedLookbackBlocks);
+        if (fromBlock > headBlock) break;
+        
+        logger.info('Backfilling missed Pool events', { fromBlock, toBlock: headBlock });
+        const replayed = await this.replayRange(fromBlock, headBlock);
+        logger.info('Backfill complete', { fromBlock, toBlock: headBlock, events: replayed });
+        
+        this.reconciledBlock = headBlock;
+        fromBlock = headBlock + 1;
+      }
+    } catch (error) {
+      // The checkpoint stays behind the gap and the periodic reconcile retries it
+      logger.error('Pool event backfill incomplete', { reconciledBlock: this.reconciledBlock, error });
+    }
+  }
+  
+  // Highest block a reconcile may cover at this head (confirmed, with one block of slack for late logs)
+  private getReconcileTarget(headBlock: number): number {
+    return headBlock - getConfig().eventConfirmations - 1;
+  }
+  
+  // Query Pool events since the last reconciled block and submit any the live filters missed
+  // Returns the number of missed events
+  private async reconcile(): Promise<number> {
+    if (this.reconciling) return 0;
+    this.reconciling = true;
     
-    // Listen to Supply events (collateral added)
-    this.poolContract.on('Supply', async (reserve, user, onBehalfOf, amount, _referralCode, event) => {
-      try {
-        await this.handleSupplyEvent(reserve, user, onBehalfOf, amount, event);
-      } catch (error) {
-        logger.error('Error handling Supply event', { error });
+    try {
+      const headBlock = await this.provider.getBlockNumber();
+      const toBlock = this.getReconcileTarget(headBlock);
+      // Older gaps are covered by the seed scan
+      const fromBlock = Math.max(this.reconciledBlock + 1, toBlock - getConfig().seedLookbackBlocks);
+      if (fromBlock > toBlock) return 0;
+      
+      const missed = await this.replayRange(fromBlock, toBlock);
+      this.reconciledBlock = toBlock;
+      if (missed > 0) {
+        logger.warn('Replayed Pool events missed by the live filters', { fromBlock, toBlock, missed });
+      }
+      return missed;
+    } finally {
+      this.reconciling = false;
+    }
+  }
+  
+  // Query the core Pool events for a block range and submit the ones not yet seen, in chain order
+  // Throws on a failed query so callers never mark the range as covered
+  private async replayRange(fromBlock: number, toBlock: number): Promise<number> {
+    let replayed = 0;
+    
+    for (let start = fromBlock; start <= toBlock; start += BACKFILL_BATCH_SIZE) {
+      const end = Math.min(start + BACKFILL_BATCH_SIZE - 1, toBlock);
+      const logs: ethers.EventLog[] = [];
+      
+      for (const eventName of POOL_EVENTS) {
+        const events = await this.poolContract.queryFilter(eventName, start, end);
+        for (const event of events) {
+          if ('args' in event && event.args) logs.push(event);
+        }
+      }
+      
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      for (const log of logs) {
+        if (this.isDuplicatePoolLog(log)) continue;
+        await this.submitPoolEvent(log.eventName, Array.from(log.args), log);
+        replayed++;
       }
+    }
+    
+    return replayed;
+  }
+  
+  // Last block whose events are reflected in the registry (null before the first block)
+  getLastProcessedBlock(): number | null {
+    return this.checkpoint.get();
+  }
+  
+  // Persist progress once the startup backfill is done, never past the reconciled range
+  private saveCheckpoint(confirmedBlock: number): void {
+    if (!this.initialBackfillDone) return;
+    // One block of slack: live logs can arrive after the header of their block
+    const blockNumber = Math.min(confirmedBlock - 1, this.reconciledBlock);
+    if (blockNumber <= 0) return;
+    this.checkpoint.save(blockNumber).catch(error => {
+      logger.error('Failed to save block checkpoint', { error });
+    });
+  }
+  
+  // Recreate Pool filters, then replay the blocks they may have missed (dedup absorbs the overlap)
+  private async resync(): Promise<void> {
+    if (this.resyncing) return;
+    this.resyncing = true;
+    this.needsResync = false;
+    
+    try {
+      logger.warn('Resyncing Pool event listeners', {
+        lastProcessedBlock: this.checkpoint.get(),
+        reconciledBlock: this.reconciledBlock
+      });
+      await this.poolContract.removeAllListeners();
+      this.startPoolListening();
+      await this.reconcile();
+    } catch (error) {
+      logger.error('Error resyncing Pool event listeners', { error });
+      this.needsResync = true;
+    } finally {
+      this.resyncing = false;
+    }
+  }
+  
+  // Route a log through the confirmation pipeline
+  private submit(name: string, log: ethers.Log, users: string[], handler: () => Promise<void>): Promise<void> {
+    if (!this.pipeline) return Promise.resolve();
+    return this.pipeline.submit({ name, log, users, handler }).catch(error => {
+      logger.error(`Error submitting ${name} event`, { error });
     });
+  }
+  
+  // Re-hydrate borrowers whose events were reorged out
+  private async handleReorgedBorrowers(users: string[]): Promise<void> {
+    for (const user of users) {
+      const borrower = borrowerRegistry.getBorrower(user);
+      if (!borrower) continue;
+      
+      // Anything prepared from the orphaned state is no longer valid
+      borrowerRegistry.invalidateCachedTx(user, 'Chain reorg');
+      
+      await this.updateBorrowerBalances(user);
+      
+      // A ghost Borrow may have been the only reason this borrower was tracked
+      const updated = borrowerRegistry.getBorrower(user);
+      if (updated && updated.debtBalances.every(b => b.amount === 0n)) {
+        logger.info('Removing borrower with no debt after reorg', { user });
+        borrowerRegistry.removeBorrower(user);
+        continue;
+      }
+      
+      borrowerRegistry.markBorrowerUpdated(user);
+      this.emit('borrowerUpdated', user);
+    }
+  }
+  
+  // Listen to Transfer/BalanceTransfer on every discovered aToken
+  private startATokenListening(): void {
+    for (const reserve of reserveDiscovery.getAll()) {
+      const aTokenContract = new ethers.Contract(reserve.aTokenAddress, ATOKEN_ABI, this.provider);
+      
+      aTokenContract.on('BalanceTransfer', (from, to, _value, _index, event) => {
+        this.submit('BalanceTransfer', event.log, [from, to], () =>
+          this.handleATokenTransfer('BalanceTransfer', reserve.address, from, to, event.log));
+      });
+      
+      aTokenContract.on('Transfer', (from, to, _value, event) => {
+        this.submit('Transfer', event.log, [from, to], () =>
+          this.handleATokenTransfer('Transfer', reserve.address, from, to, event.log));
+      });
+      
+      this.aTokenContracts.push(aTokenContract);
+    }
+    
+    logger.info('aToken transfer listeners started', { aTokens: this.aTokenContracts.length });
+  }
+  
+  // Handle aToken Transfer/BalanceTransfer (both are emitted for one transfer)
+  private async handleATokenTransfer(
+    eventName: string,
+    reserve: string,
+    from: string,
+    to: string,
+    event: ethers.Log
+  ): Promise<void> {
+    // Mints and burns come with Supply/Withdraw/Repay/LiquidationCall events
+    if (from === ethers.ZeroAddress || to === ethers.ZeroAddress) {
+      return;
+    }
     
-    // Listen to Withdraw events (collateral removed)
-    this.poolContract.on('Withdraw', async (reserve, user, to, amount, event) => {
-      try {
-        await this.handleWithdrawEvent(reserve, user, to, amount, event);
-      } catch (error) {
-        logger.error('Error handling Withdraw event', { error });
+    // Process each transfer once even though the aToken emits two events for it
+    const key = `${event.transactionHash}:${from.toLowerCase()}:${to.toLowerCase()}`;
+    if (this.recentTransfers.has(key)) {
+      return;
+    }
+    this.recentTransfers.add(key);
+    if (this.recentTransfers.size > 1000) {
+      const oldest = this.recentTransfers.values().next().value;
+      if (oldest) this.recentTransfers.delete(oldest);
+    }
+    
+    await this.handleBalanceChangeEvent(eventName, reserve, [from, to], event);
+  }
+  
+  // Re-hydrate known borrowers whose balances changed outside the core Pool events
+  private async handleBalanceChangeEvent(
+    eventName: string,
+    reserve: string,
+    users: string[],
+    event: ethers.Log
+  ): Promise<void> {
+    for (const user of users) {
+      // Only process if borrower exists
+      const borrower = borrowerRegistry.getBorrower(user);
+      if (!borrower) continue;
+      
+      logger.debug('Balance-changing event detected', {
+        event: eventName,
+        user,
+        reserve,
+        blockNumber: event.blockNumber
+      });
+      
+      // Update cached balances
+      await this.updateBorrowerBalances(user);
+      
+      // Mark as hydrated after successful balance update
+      borrowerRegistry.markBorrowerHydrated(user);
+      
+      // Mark as updated
+      borrowerRegistry.markBorrowerUpdated(user);
+      
+      // Emit event for HF recalculation
+      this.emit('borrowerUpdated', user);
+    }
+  }
+  
+  // Listen to governance changes of reserve risk parameters
+  private async startConfiguratorListening(): Promise<void> {
+    const addresses = getAaveAddresses();
+    if (!addresses.poolAddressProvider) {
+      logger.warn('AAVE_POOL_ADDRESS_PROVIDER not set, reserve config changes will only be picked up by periodic refresh');
+      return;
+    }
+    
+    try {
+      const addressesProvider = new ethers.Contract(
+        addresses.poolAddressProvider,
+        POOL_ADDRESSES_PROVIDER_ABI,
+        this.provider
+      );
+      const configuratorAddress: string = await addressesProvider.getPoolConfigurator();
+      
+      this.configuratorContract = new ethers.Contract(
+        configuratorAddress,
+        POOL_CONFIGURATOR_ABI,
+        this.provider
+      );
+      
+      const configEvents = [
+        'CollateralConfigurationChanged',
+        'ReserveFactorChanged',
+        'LiquidationProtocolFeeChanged',
+        'ReserveActive',
+        'ReserveFrozen',
+        'ReservePaused'
+      ];
+      
+      for (const eventName of configEvents) {
+        this.configuratorContract.on(eventName, (...args: any[]) => {
+          const asset: string = args[0];
+          const event: ethers.ContractEventPayload = args[args.length - 1];
+          logger.info('Reserve configuration event detected', {
+            event: eventName,
+            asset,
+            blockNumber: event.log?.blockNumber
+          });
+          this.emit('reserveConfigChanged', asset);
+        });
       }
+      
+      // E-Mode category parameter and membership changes
+      this.configuratorContract.on('EModeCategoryAdded', (categoryId: bigint) => {
+        logger.info('E-Mode category event detected', { event: 'EModeCategoryAdded', categoryId: Number(categoryId) });
+        this.emit('eModeCategoryChanged', Number(categoryId));
+      });
+      
+      this.configuratorContract.on('AssetCollateralInEModeChanged', (asset: string, categoryId: bigint) => {
+        logger.info('E-Mode category event detected', { event: 'AssetCollateralInEModeChanged', asset, categoryId: Number(categoryId) });
+        this.emit('eModeCategoryChanged', Number(categoryId));
+      });
+      
+      logger.info('PoolConfigurator listeners started', { configurator: configuratorAddress });
+    } catch (error) {
+      logger.error('Failed to start PoolConfigurator listeners', { error });
+    }
+  }
+  
+  // Listen to governance changes of AaveOracle price sources
+  private startOracleListening(): void {
+    this.oracleContract = new ethers.Contract(getAaveAddresses().oracle, AAVE_ORACLE_ABI, this.provider);
+    
+    this.oracleContract.on('AssetSourceUpdated', (asset: string, source: string, event: ethers.ContractEventPayload) => {
+      logger.info('Oracle source event detected', {
+        asset,
+        source,
+        blockNumber: event.log?.blockNumber
+      });
+      this.emit('oracleSourceChanged', asset);
     });
     
-    this.isListening = true;
-    logger.info('Aave event listeners started');
+    logger.info('AaveOracle listeners started', { oracle: this.oracleContract.target });
   }
   
   // Handle Borrow event
@@ -156,12 +599,15 @@ export class AaveEventListener extends EventEmitter {
     user: string,
     _repayer: string,
     amount: bigint,
+    useATokens: boolean,
     event: ethers.Log
   ): Promise<void> {
+    // With useATokens the repayment also burns the user's aTokens (collateral)
     logger.info('Repay event detected', {
       user,
       reserve,
       amount: amount.toString(),
+      useATokens,
       blockNumber: event.blockNumber
     });
     
@@ -219,30 +665,27 @@ export class AaveEventListener extends EventEmitter {
       const debtSymbol = this.getAssetSymbol(debtAsset);
       const collateralSymbol = this.getAssetSymbol(collateralAsset);
       
-      // Get decimals
-      const debtTokenContract = new ethers.Contract(debtAsset, ERC20_ABI, this.provider);
-      const collateralTokenContract = new ethers.Contract(collateralAsset, ERC20_ABI, this.provider);
-      
-      const debtDecimals = await debtTokenContract.decimals();
-      const collateralDecimals = await collateralTokenContract.decimals();
+      // Get decimals and oracle prices in one multicall batch
+      const multicall = getMulticall(this.provider);
+      const oracle = getAaveAddresses().oracle;
+      const [debtDecimals, collateralDecimals, debtPrice, collateralPrice] = await Promise.all([
+        multicall.call<bigint>(debtAsset, ERC20_INTERFACE, 'decimals'),
+        multicall.call<bigint>(collateralAsset, ERC20_INTERFACE, 'decimals'),
+        multicall.call<bigint>(oracle, ORACLE_INTERFACE, 'getAssetPrice', [debtAsset]),
+        multicall.call<bigint>(oracle, ORACLE_INTERFACE, 'getAssetPrice', [collateralAsset])
+      ]);
       
-      // Get oracle prices
-      const oracleContract = new ethers.Contract(
-        getAaveAddresses().oracle,
-        ['function getAssetPrice(address asset) external view returns (uint256)'],
-        this.provider
-      );
-      
-      const debtPrice = await oracleContract.getAssetPrice(debtAsset);
-      const collateralPrice = await oracleContract.getAssetPrice(collateralAsset);
+      if (debtDecimals === null || collateralDecimals === null || debtPrice === null || collateralPrice === null) {
+        throw new Error('Failed to read decimals or oracle prices for liquidation audit');
+      }
       
       // Aave oracle returns prices in 8 decimals USD
       const debtPriceUSD = Number(debtPrice) / 1e8;
       const collateralPriceUSD = Number(collateralPrice) / 1e8;
       
       // Compute USD values
-      const debtAmount = Number(debtToCover) / Math.pow(10, debtDecimals);
-      const collateralAmount = Number(liquidatedCollateralAmount) / Math.pow(10, collateralDecimals);
+      const debtAmount = Number(debtToCover) / Math.pow(10, Number(debtDecimals));
+      const collateralAmount = Number(liquidatedCollateralAmount) / Math.pow(10, Number(collateralDecimals));
       
       debtUSD = debtAmount * debtPriceUSD;
       collateralUSD = collateralAmount * collateralPriceUSD;
@@ -293,6 +736,8 @@ Candidates Total: ${stats.total}`;
         blockNumber,
         txHash,
         reason,
+        debtOracleSource: oracleSources.get(debtSymbol)?.description,
+        collateralOracleSource: oracleSources.get(collateralSymbol)?.description,
         candidatesTotal: stats.total
       });
       
@@ -320,15 +765,39 @@ Candidates Total: ${stats.total}`;
     }
   }
   
+  // Handle UserEModeSet event
+  private async handleUserEModeSetEvent(
+    user: string,
+    categoryId: number,
+    event: ethers.Log
+  ): Promise<void> {
+    // Only process if borrower exists
+    const borrower = borrowerRegistry.getBorrower(user);
+    if (!borrower) {
+      logger.debug('UserEModeSet event for unknown borrower, skipping', { user });
+      return;
+    }
+    
+    logger.info('UserEModeSet event detected', {
+      user,
+      oldCategory: borrower.eModeCategory,
+      newCategory: categoryId,
+      blockNumber: event.blockNumber
+    });
+    
+    borrower.eModeCategory = categoryId;
+    await eModeCache.ensureCategory(this.provider, categoryId);
+    
+    // Mark as updated
+    borrowerRegistry.markBorrowerUpdated(user);
+    
+    // Emit event for HF recalculation
+    this.emit('borrowerUpdated', user);
+  }
+  
   // Helper to get asset symbol from address
   private getAssetSymbol(address: string): string {
-    const ASSET_ADDRESSES: Record<string, string> = {
-      '0x4200000000000000000000000000000000000006': 'WETH',
-      '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913': 'USDC',
-      '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22': 'cbETH'
-    };
-    
-    return ASSET_ADDRESSES[address] || address;
+    return getTokenSymbol(address) || address;
   }
   
   // Handle Supply event
@@ -458,83 +927,30 @@ Candidates Total: ${stats.total}`;
       return;
     }
     
-    const config = getConfig();
-    
-    // Fetch collateral balances
-    const collateralBalances: BorrowerBalance[] = [];
-    for (const asset of config.targetCollateralAssets) {
-      try {
-        const assetAddress = getTokenAddress(asset);
-        const balance = await this.getCollateralBalance(userAddress, assetAddress);
-        
-        if (balance > 0n) {
-          collateralBalances.push({
-            asset,
-            amount: balance,
-            valueUsd: 0 // Will be computed during HF calculation
-          });
-        }
-      } catch (error) {
-        logger.error('Error fetching collateral balance', { asset, error });
-      }
-    }
-    
-    // Fetch debt balances
-    const debtBalances: BorrowerBalance[] = [];
-    for (const asset of config.targetDebtAssets) {
-      try {
-        const assetAddress = getTokenAddress(asset);
-        const balance = await this.getDebtBalance(userAddress, assetAddress);
-        
-        if (balance > 0n) {
-          debtBalances.push({
-            asset,
-            amount: balance,
-            valueUsd: 0 // Will be computed during HF calculation
-          });
-        }
-      } catch (error) {
-        logger.error('Error fetching debt balance', { asset, error });
-      }
+    // Fetch balances for the reserves enabled in the user's configuration bitmap
+    let balances: UserBalances;
+    try {
+      balances = await fetchUserBalances(this.provider, userAddress);
+    } catch (error) {
+      logger.error('Error fetching user configuration', { userAddress, error });
+      return;
     }
+    const { collateralBalances, debtBalances } = balances;
     
     // Update borrower
-    borrower.collateralBalances = collateralBalances;
-    borrower.debtBalances = debtBalances;
+    borrowerRegistry.updateBorrowerBalances(userAddress, collateralBalances, debtBalances);
+    
+    // Refresh E-Mode category (affects liquidation threshold and bonus)
+    await refreshBorrowerEMode(this.provider, borrower);
     
     logger.debug('Borrower balances updated', {
       address: userAddress,
       collateralCount: collateralBalances.length,
-      debtCount: debtBalances.length
+      debtCount: debtBalances.length,
+      eModeCategory: borrower.eModeCategory
     });
   }
   
-  // Get collateral balance (aToken balance)
-  private async getCollateralBalance(userAddress: string, assetAddress: string): Promise<bigint> {
-    // Get reserve data to find aToken address
-    const reserveData = await this.poolContract.getReserveData(assetAddress);
-    const aTokenAddress = reserveData.aTokenAddress;
-    
-    // Get aToken balance
-    const aTokenContract = new ethers.Contract(aTokenAddress, ERC20_ABI, this.provider);
-    const balance = await aTokenContract.balanceOf(userAddress);
-    
-    return balance;
-  }
-  
-  // Get debt balance (variable debt token balance)
-  private async getDebtBalance(userAddress: string, assetAddress: string): Promise<bigint> {
-    // Get reserve data to find debt token address
-    const reserveData = await this.poolContract.getReserveData(assetAddress);
-    const debtTokenAddress = reserveData.variableDebtTokenAddress;
-    
-    // Get debt token balance
-    const debtTokenContract = new ethers.Contract(debtTokenAddress, ERC20_ABI, this.provider);
-    const balance = await debtTokenContract.balanceOf(userAddress);
-    
-    return balance;
-  }
-  
   // Stop listening to events
   stopListening(): void {
     if (!this.isListening) {
@@ -542,6 +958,21 @@ Candidates Total: ${stats.total}`;
     }
     
     this.poolContract.removeAllListeners();
+    this.provider.off('block', this.blockHandler);
+    this.provider.off('error', this.errorHandler);
+    this.pipeline?.removeAllListeners();
+    this.pipeline = undefined;
+    for (const aTokenContract of this.aTokenContracts) {
+      aTokenContract.removeAllListeners();
+    }
+    this.aTokenContracts = [];
+    if (this.configuratorContract) {
+      this.configuratorContract.removeAllListeners();
+    }
+    if (this.oracleContract) {
+      this.oracleContract.removeAllListeners();
+    }
+    this.initialBackfillDone = false;
     this.isListening = false;
     logger.info('Aave event listeners stopped');
   }
@@ -0,0 +1,128 @@
+import { ethers } from 'ethers';
+import { getAaveAddresses, AAVE_POOL_ABI, SCALED_BALANCE_TOKEN_ABI } from './addresses';
+import { reserveDiscovery, ReserveInfo } from './discovery';
+import { reserveIndexCache, nowSeconds } from './indices';
+import { BorrowerBalance } from '../state/borrower';
+import { getMulticall } from '../rpc/multicall';
+import logger from '../logging/logger';
+
+const POOL_INTERFACE = new ethers.Interface(AAVE_POOL_ABI);
+const SCALED_BALANCE_INTERFACE = new ethers.Interface(SCALED_BALANCE_TOKEN_ABI);
+
+// Reserves a user has enabled, decoded from UserConfiguration
+export interface UserReserves {
+  collateral: ReserveInfo[];
+  borrowing: ReserveInfo[];
+}
+
+// Balances fetched for the reserves a user has enabled
+export interface UserBalances {
+  collateralBalances: BorrowerBalance[];
+  debtBalances: BorrowerBalance[];
+}
+
+// UserConfiguration bitmap: bit 2*id = borrowing, bit 2*id+1 = using as collateral
+export function isBorrowing(data: bigint, reserveId: number): boolean {
+  return ((data >> BigInt(reserveId * 2)) & 1n) === 1n;
+}
+
+export function isUsingAsCollateral(data: bigint, reserveId: number): boolean {
+  return ((data >> BigInt(reserveId * 2 + 1)) & 1n) === 1n;
+}
+
+// Map a UserConfiguration bitmap to discovered reserves
+export function decodeUserConfiguration(data: bigint, reserves: ReserveInfo[]): UserReserves {
+  const collateral: ReserveInfo[] = [];
+  const borrowing: ReserveInfo[] = [];
+
+  for (const reserve of reserves) {
+    if (isUsingAsCollateral(data, reserve.id)) collateral.push(reserve);
+    if (isBorrowing(data, reserve.id)) borrowing.push(reserve);
+  }
+
+  return { collateral, borrowing };
+}
+
+// Fetch the user's configuration bitmap from the Pool (batched via Multicall3)
+export async function getUserConfiguration(
+  provider: ethers.JsonRpcProvider,
+  userAddress: string
+): Promise<bigint> {
+  const config = await getMulticall(provider).call(
+    getAaveAddresses().pool,
+    POOL_INTERFACE,
+    'getUserConfiguration',
+    [userAddress]
+  );
+  if (config === null) {
+    throw new Error(`getUserConfiguration failed for ${userAddress}`);
+  }
+  return BigInt(config.data);
+}
+
+// Fetch balances only for reserves the user has enabled as collateral or borrows
+// Scaled balances are stored and projected with the reserve indices, so later
+// HF recomputations include accrued interest without RPC.
+// All reads are issued together so concurrent hydrations share multicall batches
+export async function fetchUserBalances(
+  provider: ethers.JsonRpcProvider,
+  userAddress: string,
+  refreshIndices: boolean = true
+): Promise<UserBalances> {
+  const data = await getUserConfiguration(provider, userAddress);
+  const { collateral, borrowing } = decodeUserConfiguration(data, reserveDiscovery.getAll());
+  const multicall = getMulticall(provider);
+
+  // Refresh indices of the reserves in use (or only those not cached yet)
+  const assets = [...new Set([...collateral, ...borrowing].map(reserve => reserve.symbol))];
+  const indexAssets = refreshIndices ? assets : assets.filter(asset => !reserveIndexCache.get(asset));
+
+  const [collateralAmounts, debtAmounts] = await Promise.all([
+    Promise.all(collateral.map(reserve =>
+      multicall.call<bigint>(reserve.aTokenAddress, SCALED_BALANCE_INTERFACE, 'scaledBalanceOf', [userAddress])
+    )),
+    Promise.all(borrowing.map(reserve =>
+      multicall.call<bigint>(reserve.variableDebtTokenAddress, SCALED_BALANCE_INTERFACE, 'scaledBalanceOf', [userAddress])
+    )),
+    reserveIndexCache.refresh(provider, indexAssets)
+  ]);
+
+  const timestamp = nowSeconds();
+  return {
+    collateralBalances: toBalances(collateral, collateralAmounts, 'collateral', timestamp),
+    debtBalances: toBalances(borrowing, debtAmounts, 'debt', timestamp)
+  };
+}
+
+// Keep non-zero balances with their projected current amount, logging reads that failed
+function toBalances(
+  reserves: ReserveInfo[],
+  scaledAmounts: (bigint | null)[],
+  kind: 'collateral' | 'debt',
+  timestamp: bigint
+): BorrowerBalance[] {
+  const balances: BorrowerBalance[] = [];
+
+  for (let i = 0; i < reserves.length; i++) {
+    const scaledAmount = scaledAmounts[i];
+    if (scaledAmount === null || !reserveIndexCache.get(reserves[i].symbol)) {
+      logger.error(`Error fetching ${kind} balance`, { asset: reserves[i].symbol });
+      continue;
+    }
+
+    if (scaledAmount > 0n) {
+      const balance: BorrowerBalance = {
+        asset: reserves[i].symbol,
+        amount: 0n,
+        scaledAmount,
+        valueUsd: 0 // Will be computed during HF calculation
+      };
+      balance.amount = kind === 'collateral'
+        ? reserveIndexCache.projectCollateral(balance, timestamp)
+        : reserveIndexCache.projectDebt(balance, timestamp);
+      balances.push(balance);
+    }
+  }
+
+  return balances;
+}
@@ -0,0 +1,148 @@
+import { ethers } from 'ethers';
+import { getAaveAddresses, AAVE_POOL_ABI } from './addresses';
+import { getTokenAddress } from '../tokens';
+import { Borrower, BorrowerBalance } from '../state/borrower';
+import { calculateCompoundedInterest, calculateLinearInterest, rayMul } from '../hf/math';
+import { getMulticall } from '../rpc/multicall';
+import logger from '../logging/logger';
+
+const POOL_INTERFACE = new ethers.Interface(AAVE_POOL_ABI);
+
+// Reserve interest state as of its last on-chain update (indices and rates in ray)
+export interface ReserveIndexData {
+  asset: string;
+  liquidityIndex: bigint;
+  variableBorrowIndex: bigint;
+  currentLiquidityRate: bigint;
+  currentVariableBorrowRate: bigint;
+  lastUpdateTimestamp: bigint; // Seconds
+}
+
+// ReserveLogic.getNormalizedIncome: liquidity index projected to timestamp
+export function getNormalizedIncome(data: ReserveIndexData, timestamp: bigint): bigint {
+  if (timestamp <= data.lastUpdateTimestamp) return data.liquidityIndex;
+  return rayMul(
+    calculateLinearInterest(data.currentLiquidityRate, data.lastUpdateTimestamp, timestamp),
+    data.liquidityIndex
+  );
+}
+
+// ReserveLogic.getNormalizedDebt: variable borrow index projected to timestamp
+export function getNormalizedDebt(data: ReserveIndexData, timestamp: bigint): bigint {
+  if (timestamp <= data.lastUpdateTimestamp) return data.variableBorrowIndex;
+  return rayMul(
+    calculateCompoundedInterest(data.currentVariableBorrowRate, data.lastUpdateTimestamp, timestamp),
+    data.variableBorrowIndex
+  );
+}
+
+// Current time in seconds (matches block.timestamp resolution)
+export function nowSeconds(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+// Per-reserve index cache used to project scaled balances without RPC
+class ReserveIndexCache {
+  private indices: Map<string, ReserveIndexData> = new Map();
+  private lastRefreshBlock: number = 0;
+
+  // Get cached index data for an asset symbol
+  get(asset: string): ReserveIndexData | undefined {
+    return this.indices.get(asset);
+  }
+
+  // Store index data (used by refresh and tests); returns true if indices or rates changed
+  set(data: ReserveIndexData): boolean {
+    const previous = this.indices.get(data.asset);
+    this.indices.set(data.asset, data);
+    return !previous ||
+      previous.liquidityIndex !== data.liquidityIndex ||
+      previous.variableBorrowIndex !== data.variableBorrowIndex ||
+      previous.currentLiquidityRate !== data.currentLiquidityRate ||
+      previous.currentVariableBorrowRate !== data.currentVariableBorrowRate;
+  }
+
+  // Read index data for the given reserves from getReserveData (batched via Multicall3)
+  // Returns the assets whose indices or rates changed since the last refresh
+  async refresh(provider: ethers.JsonRpcProvider, assets: string[], blockNumber?: number): Promise<string[]> {
+    const multicall = getMulticall(provider);
+    const pool = getAaveAddresses().pool;
+
+    const results = await Promise.all(assets.map(asset => {
+      try {
+        return multicall.call(pool, POOL_INTERFACE, 'getReserveData', [getTokenAddress(asset)]);
+      } catch (error) {
+        logger.error('Failed to resolve reserve address for index refresh', { asset, error });
+        return Promise.resolve(null);
+      }
+    }));
+
+    const changed: string[] = [];
+    for (let i = 0; i < assets.length; i++) {
+      const reserveData = results[i];
+      if (reserveData === null) {
+        logger.error('Failed to refresh reserve indices', { asset: assets[i] });
+        continue;
+      }
+
+      const updated = this.set({
+        asset: assets[i],
+        liquidityIndex: BigInt(reserveData.liquidityIndex),
+        variableBorrowIndex: BigInt(reserveData.variableBorrowIndex),
+        currentLiquidityRate: BigInt(reserveData.currentLiquidityRate),
+        currentVariableBorrowRate: BigInt(reserveData.currentVariableBorrowRate),
+        lastUpdateTimestamp: BigInt(reserveData.lastUpdateTimestamp)
+      });
+      if (updated) changed.push(assets[i]);
+    }
+
+    if (blockNumber !== undefined) {
+      this.lastRefreshBlock = blockNumber;
+    }
+    return changed;
+  }
+
+  // Check if periodic refresh is due
+  isRefreshDue(blockNumber: number, intervalBlocks: number): boolean {
+    if (intervalBlocks <= 0) return false;
+    return blockNumber - this.lastRefreshBlock >= intervalBlocks;
+  }
+
+  // Mark refresh as started at block (prevents overlapping refreshes)
+  markRefreshed(blockNumber: number): void {
+    this.lastRefreshBlock = blockNumber;
+  }
+
+  // Project a collateral (aToken) balance from its scaled amount
+  projectCollateral(balance: BorrowerBalance, timestamp: bigint): bigint {
+    const data = this.indices.get(balance.asset);
+    if (balance.scaledAmount === undefined || !data) return balance.amount;
+    return rayMul(balance.scaledAmount, getNormalizedIncome(data, timestamp));
+  }
+
+  // Project a variable debt balance from its scaled amount
+  projectDebt(balance: BorrowerBalance, timestamp: bigint): bigint {
+    const data = this.indices.get(balance.asset);
+    if (balance.scaledAmount === undefined || !data) return balance.amount;
+    return rayMul(balance.scaledAmount, getNormalizedDebt(data, timestamp));
+  }
+
+  // Update a borrower's balances with interest accrued up to timestamp (no RPC)
+  accrueBorrower(borrower: Borrower, timestamp: bigint = nowSeconds()): void {
+    for (const balance of borrower.collateralBalances) {
+      balance.amount = this.projectCollateral(balance, timestamp);
+    }
+    for (const balance of borrower.debtBalances) {
+      balance.amount = this.projectDebt(balance, timestamp);
+    }
+  }
+
+  // Clear cache (for testing)
+  clear(): void {
+    this.indices.clear();
+    this.lastRefreshBlock = 0;
+  }
+}
+
+// Export singleton instance
+export const reserveIndexCache = new ReserveIndexCache();
@@ -0,0 +1,209 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import logger from '../logging/logger';
+
+// Log waiting to be handled, with the borrowers it affects
+export interface PipelineEvent {
+  name: string;
+  log: ethers.Log;
+  users: string[]; // Borrowers to re-hydrate if this log is reorged out
+  handler: () => Promise<void>;
+}
+
+// Block header kept for parent-hash checks
+interface BlockRecord {
+  number: number;
+  hash: string;
+  parentHash: string;
+}
+
+// Number of recent blocks kept for reorg detection
+const DEFAULT_HISTORY_BLOCKS = 128;
+
+// Buffers logs until they are `confirmations` blocks deep, detects reorgs by
+// parent-hash mismatch and emits 'reorg' with the borrowers whose events were
+// dropped or already handled on an orphaned block; 'processed' reports the
+// highest block whose logs have all been released
+export class EventPipeline extends EventEmitter {
+  private provider: ethers.Provider;
+  private confirmations: number;
+  private historyBlocks: number;
+  private pending: PipelineEvent[] = [];
+  private blocks: Map<number, BlockRecord> = new Map();
+  private dispatched: Map<string, { blockNumber: number; users: Set<string> }> = new Map(); // By block hash
+  private headBlock: number = 0;
+  private processing: Promise<void> = Promise.resolve();
+
+  constructor(provider: ethers.Provider, confirmations: number, historyBlocks: number = DEFAULT_HISTORY_BLOCKS) {
+    super();
+    this.provider = provider;
+    this.confirmations = Math.max(0, confirmations);
+    this.historyBlocks = Math.max(historyBlocks, this.confirmations + 1);
+  }
+
+  // Accept a log from a live listener or a replay
+  async submit(event: PipelineEvent): Promise<void> {
+    if (event.log.removed) {
+      this.handleRemoved(event);
+      return;
+    }
+
+    // No confirmation depth: handle immediately, reorgs are still tracked
+    if (this.confirmations === 0) {
+      await this.dispatch(event);
+      return;
+    }
+
+    this.pending.push(event);
+  }
+
+  // Process a new block (calls are serialized)
+  onBlock(blockNumber: number): Promise<void> {
+    this.processing = this.processing
+      .then(() => this.processBlock(blockNumber))
+      .catch(error => {
+        logger.error('Error processing block in event pipeline', { blockNumber, error });
+      });
+    return this.processing;
+  }
+
+  // Number of logs still waiting for confirmations
+  getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  // Latest block seen by the pipeline
+  getHeadBlock(): number {
+    return this.headBlock;
+  }
+
+  // Record the block, check for reorgs and release confirmed logs
+  private async processBlock(blockNumber: number): Promise<void> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block || !block.hash) return;
+
+    const existing = this.blocks.get(blockNumber);
+    const parent = this.blocks.get(blockNumber - 1);
+
+    if (existing && existing.hash !== block.hash) {
+      await this.handleReorg(blockNumber);
+    } else if (parent && parent.hash !== block.parentHash) {
+      await this.handleReorg(blockNumber - 1);
+    }
+
+    this.blocks.set(blockNumber, { number: blockNumber, hash: block.hash, parentHash: block.parentHash });
+    this.headBlock = Math.max(this.headBlock, blockNumber);
+    this.prune();
+
+    await this.releaseConfirmed();
+    this.emit('processed', this.headBlock - this.confirmations);
+  }
+
+  // Walk back from `fromBlock` until stored hashes match the canonical chain
+  private async handleReorg(fromBlock: number): Promise<void> {
+    const orphaned = new Set<string>();
+
+    for (let number = fromBlock; number > this.headBlock - this.historyBlocks; number--) {
+      const record = this.blocks.get(number);
+      if (!record) break;
+
+      const canonical = await this.provider.getBlock(number);
+      if (!canonical || !canonical.hash || canonical.hash === record.hash) break;
+
+      orphaned.add(record.hash);
+      this.blocks.set(number, { number, hash: canonical.hash, parentHash: canonical.parentHash });
+    }
+
+    if (orphaned.size === 0) return;
+
+    // Drop buffered logs from orphaned blocks and collect every affected borrower
+    const users = new Set<string>();
+    const dropped = this.pending.filter(event => orphaned.has(event.log.blockHash));
+    this.pending = this.pending.filter(event => !orphaned.has(event.log.blockHash));
+
+    for (const event of dropped) {
+      event.users.forEach(user => users.add(user));
+    }
+    for (const hash of orphaned) {
+      this.dispatched.get(hash)?.users.forEach(user => users.add(user));
+      this.dispatched.delete(hash);
+    }
+
+    logger.warn('Chain reorg detected', {
+      fromBlock,
+      orphanedBlocks: orphaned.size,
+      droppedLogs: dropped.length,
+      affectedBorrowers: users.size
+    });
+
+    this.emit('reorg', Array.from(users));
+  }
+
+  // Handle logs that are deep enough and still on the canonical chain
+  private async releaseConfirmed(): Promise<void> {
+    const confirmedBlock = this.headBlock - this.confirmations;
+    const ready = this.pending
+      .filter(event => event.log.blockNumber <= confirmedBlock)
+      .sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+    if (ready.length === 0) return;
+
+    this.pending = this.pending.filter(event => event.log.blockNumber > confirmedBlock);
+
+    for (const event of ready) {
+      const record = this.blocks.get(event.log.blockNumber);
+      if (record && record.hash !== event.log.blockHash) {
+        logger.warn('Dropping log from orphaned block', {
+          event: event.name,
+          blockNumber: event.log.blockNumber,
+          txHash: event.log.transactionHash
+        });
+        this.emit('reorg', event.users);
+        continue;
+      }
+
+      await this.dispatch(event);
+    }
+  }
+
+  // Run the handler and remember which borrowers it touched
+  private async dispatch(event: PipelineEvent): Promise<void> {
+    let entry = this.dispatched.get(event.log.blockHash);
+    if (!entry) {
+      entry = { blockNumber: event.log.blockNumber, users: new Set() };
+      this.dispatched.set(event.log.blockHash, entry);
+    }
+    event.users.forEach(user => entry!.users.add(user));
+
+    try {
+      await event.handler();
+    } catch (error) {
+      logger.error(`Error handling ${event.name} event`, { error });
+    }
+  }
+
+  // Provider reported the log as removed
+  private handleRemoved(event: PipelineEvent): void {
+    this.pending = this.pending.filter(pending =>
+      !(pending.log.transactionHash === event.log.transactionHash && pending.log.index === event.log.index)
+    );
+
+    logger.warn('Log removed by reorg', {
+      event: event.name,
+      blockNumber: event.log.blockNumber,
+      txHash: event.log.transactionHash
+    });
+
+    this.emit('reorg', event.users);
+  }
+
+  // Forget blocks and dispatch records older than the history window
+  private prune(): void {
+    const oldest = this.headBlock - this.historyBlocks;
+    for (const number of this.blocks.keys()) {
+      if (number <= oldest) this.blocks.delete(number);
+    }
+    for (const [hash, entry] of this.dispatched) {
+      if (entry.blockNumber <= oldest) this.dispatched.delete(hash);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { ethers } from 'ethers';
+import { getAaveAddresses, AAVE_POOL_ABI } from './addresses';
+import { getAllTokenAddresses, getTokenAddress } from '../tokens';
+import logger from '../logging/logger';
+
+// Bit layout of the Aave v3 ReserveConfiguration bitmap
+// See ReserveConfiguration.sol in aave-v3-core
+const LTV_MASK = 0xFFFFn;
+const LIQUIDATION_THRESHOLD_START_BIT = 16n;
+const LIQUIDATION_BONUS_START_BIT = 32n;
+const DECIMALS_START_BIT = 48n;
+const IS_ACTIVE_BIT = 56n;
+const IS_FROZEN_BIT = 57n;
+const IS_PAUSED_BIT = 60n;
+const RESERVE_FACTOR_START_BIT = 64n;
+const LIQUIDATION_PROTOCOL_FEE_START_BIT = 152n;
+
+// Aave expresses percentages in basis points with 2 decimals (10000 = 100%)
+const PERCENTAGE_FACTOR = 10000;
+
+// Decoded reserve configuration (percentages as fractions, e.g. 0.825 = 82.5%)
+export interface DecodedReserveConfiguration {
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number; // Bonus on top of 100%, e.g. 0.05 = 5% bonus
+  decimals: number;
+  isActive: boolean;
+  isFrozen: boolean;
+  isPaused: boolean;
+  reserveFactor: number;
+  liquidationProtocolFee: number; // Share of the liquidation bonus taken by the protocol
+}
+
+// Cached reserve configuration for a single asset
+export interface ReserveConfig extends DecodedReserveConfiguration {
+  asset: string;
+  address: string;
+  id: number; // Reserve index, used for user config and E-Mode bitmaps
+  updatedAt: number;
+  updatedBlock?: number;
+}
+
+// Read a 16-bit field from the configuration bitmap
+function readUint16(data: bigint, startBit: bigint): number {
+  return Number((data >> startBit) & 0xFFFFn);
+}
+
+// Read a single flag from the configuration bitmap
+function readFlag(data: bigint, bit: bigint): boolean {
+  return ((data >> bit) & 1n) === 1n;
+}
+
+// Decode the `configuration` bitmap returned by Pool.getReserveData
+export function decodeReserveConfiguration(data: bigint): DecodedReserveConfiguration {
+  const rawBonus = readUint16(data, LIQUIDATION_BONUS_START_BIT);
+
+  return {
+    ltv: Number(data & LTV_MASK) / PERCENTAGE_FACTOR,
+    liquidationThreshold: readUint16(data, LIQUIDATION_THRESHOLD_START_BIT) / PERCENTAGE_FACTOR,
+    // Stored as 100% + bonus (e.g. 10500 = 5% bonus); 0 means the reserve is not collateral
+    liquidationBonus: rawBonus > PERCENTAGE_FACTOR ? (rawBonus - PERCENTAGE_FACTOR) / PERCENTAGE_FACTOR : 0,
+    decimals: Number((data >> DECIMALS_START_BIT) & 0xFFn),
+    isActive: readFlag(data, IS_ACTIVE_BIT),
+    isFrozen: readFlag(data, IS_FROZEN_BIT),
+    isPaused: readFlag(data, IS_PAUSED_BIT),
+    reserveFactor: readUint16(data, RESERVE_FACTOR_START_BIT) / PERCENTAGE_FACTOR,
+    liquidationProtocolFee: readUint16(data, LIQUIDATION_PROTOCOL_FEE_START_BIT) / PERCENTAGE_FACTOR
+  };
+}
+
+// Per-reserve risk parameter cache, refreshed from the Pool
+class ReserveConfigCache {
+  private configs: Map<string, ReserveConfig> = new Map();
+  private lastRefreshBlock: number = 0;
+
+  // Get cached config for an asset symbol
+  get(asset: string): ReserveConfig | undefined {
+    return this.configs.get(asset);
+  }
+
+  // Get all cached configs
+  getAll(): ReserveConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  // Check if config is cached for an asset
+  has(asset: string): boolean {
+    return this.configs.has(asset);
+  }
+
+  // Store config for an asset (used by refresh and tests)
+  set(config: ReserveConfig): void {
+    this.configs.set(config.asset, config);
+  }
+
+  // Liquidation thresholds keyed by asset symbol
+  getLiquidationThresholds(): Map<string, number> {
+    const thresholds = new Map<string, number>();
+    for (const config of this.configs.values()) {
+      thresholds.set(config.asset, config.liquidationThreshold);
+    }
+    return thresholds;
+  }
+
+  // Fetch and decode configuration for a single reserve
+  async refreshReserve(
+    provider: ethers.JsonRpcProvider,
+    asset: string,
+    blockNumber?: number
+  ): Promise<ReserveConfig | undefined> {
+    const poolContract = new ethers.Contract(
+      getAaveAddresses().pool,
+      AAVE_POOL_ABI,
+      provider
+    );
+
+    try {
+      const address = getTokenAddress(asset);
+      const reserveData = await poolContract.getReserveData(address);
+      const decoded = decodeReserveConfiguration(BigInt(reserveData.configuration));
+
+      // Unlisted reserves return an all-zero configuration
+      if (decoded.decimals === 0 && !decoded.isActive) {
+        logger.debug('Asset is not listed as an Aave reserve', { asset, address });
+        return undefined;
+      }
+
+      const previous = this.configs.get(asset);
+      const config: ReserveConfig = {
+        ...decoded,
+        asset,
+        address,
+        id: Number(reserveData.id),
+        updatedAt: Date.now(),
+        updatedBlock: blockNumber
+      };
+      this.configs.set(asset, config);
+
+      if (previous && (
+        previous.liquidationThreshold !== config.liquidationThreshold ||
+        previous.liquidationBonus !== config.liquidationBonus ||
+        previous.liquidationProtocolFee !== config.liquidationProtocolFee ||
+        previous.ltv !== config.ltv ||
+        previous.isPaused !== config.isPaused ||
+        previous.isActive !== config.isActive ||
+        previous.isFrozen !== config.isFrozen
+      )) {
+        logger.info('Reserve configuration changed', {
+          asset,
+          ltv: config.ltv,
+          liquidationThreshold: config.liquidationThreshold,
+          liquidationBonus: config.liquidationBonus,
+          liquidationProtocolFee: config.liquidationProtocolFee,
+          isActive: config.isActive,
+          isFrozen: config.isFrozen,
+          isPaused: config.isPaused
+        });
+      }
+
+      return config;
+    } catch (error) {
+      logger.error('Failed to refresh reserve configuration', { asset, error });
+      return undefined;
+    }
+  }
+
+  // Refresh all catalog reserves (or the given subset)
+  async refreshAll(
+    provider: ethers.JsonRpcProvider,
+    assets: string[] = Object.keys(getAllTokenAddresses()),
+    blockNumber?: number
+  ): Promise<void> {
+    let loaded = 0;
+
+    for (const asset of assets) {
+      const config = await this.refreshReserve(provider, asset, blockNumber);
+      if (config) loaded++;
+    }
+
+    if (blockNumber !== undefined) {
+      this.lastRefreshBlock = blockNumber;
+    }
+
+    logger.info('Reserve configurations refreshed', {
+      loaded,
+      requested: assets.length,
+      blockNumber
+    });
+  }
+
+  // Check if periodic refresh is due
+  isRefreshDue(blockNumber: number, intervalBlocks: number): boolean {
+    if (intervalBlocks <= 0) return false;
+    return blockNumber - this.lastRefreshBlock >= intervalBlocks;
+  }
+
+  // Mark refresh as started at block (prevents overlapping refreshes)
+  markRefreshed(blockNumber: number): void {
+    this.lastRefreshBlock = blockNumber;
+  }
+
+  // Clear cache (for testing)
+  clear(): void {
+    this.configs.clear();
+    this.lastRefreshBlock = 0;
+  }
+}
+
+// Export singleton instance
+export const reserveConfigCache = new ReserveConfigCache();
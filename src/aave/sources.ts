@@ -0,0 +1,177 @@
+import { ethers } from 'ethers';
+import { getAaveAddresses, AAVE_ORACLE_ABI, CHAINLINK_AGGREGATOR_ABI, PRICE_CAP_ADAPTER_ABI } from './addresses';
+import { getTokenAddress } from '../tokens';
+import { getConfig } from '../config/env';
+import { getMulticall } from '../rpc/multicall';
+import logger from '../logging/logger';
+
+const ORACLE_INTERFACE = new ethers.Interface(AAVE_ORACLE_ABI);
+const AGGREGATOR_INTERFACE = new ethers.Interface(CHAINLINK_AGGREGATOR_ABI);
+const CAPO_INTERFACE = new ethers.Interface(PRICE_CAP_ADAPTER_ABI);
+
+// Proxies pointing at proxies are followed at most this deep
+const MAX_PROXY_HOPS = 3;
+
+// How AaveOracle prices an asset
+export type OracleSourceKind =
+  | 'chainlink' // Chainlink proxy, answer is the price
+  | 'capo' // CAPO adapter: Chainlink base feed × exchange rate, capped
+  | 'unknown'; // Custom source without the aggregator interface
+
+// Price source of a reserve as configured in AaveOracle
+export interface OracleSource {
+  asset: string;
+  source: string; // AaveOracle.getSourceOfAsset
+  kind: OracleSourceKind;
+  feed: string; // Chainlink proxy answering the price (the source itself, or the CAPO base feed)
+  aggregator: string; // Current aggregator behind the feed proxy (emits AnswerUpdated/NewTransmission)
+  ratioProvider?: string; // CAPO exchange rate contract
+  decimals: number | null; // Decimals of the source answer
+  description: string;
+  heartbeatSec: number; // Not published on-chain; from CHAINLINK_HEARTBEAT_MAP or the default
+  resolvedAt: number;
+}
+
+// Follow proxy.aggregator() until it reaches a contract that is not a proxy
+async function resolveAggregator(provider: ethers.JsonRpcProvider, feed: string): Promise<string> {
+  const multicall = getMulticall(provider);
+  let current = feed;
+  for (let hop = 0; hop < MAX_PROXY_HOPS; hop++) {
+    const next = await multicall.call<string>(current, AGGREGATOR_INTERFACE, 'aggregator');
+    if (!next || next === ethers.ZeroAddress || next.toLowerCase() === current.toLowerCase()) break;
+    current = next;
+  }
+  return current;
+}
+
+// Oracle sources of every reserve, queryable by asset or aggregator
+class OracleSourceRegistry {
+  private sources: Map<string, OracleSource> = new Map();
+  private lastRefreshBlock: number = 0;
+
+  // Get source by asset symbol
+  get(asset: string): OracleSource | undefined {
+    return this.sources.get(asset);
+  }
+
+  // Get all resolved sources
+  getAll(): OracleSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  // Assets priced through an aggregator (several assets can share a base feed)
+  getAssetsByAggregator(aggregator: string): string[] {
+    const key = aggregator.toLowerCase();
+    return this.getAll()
+      .filter(source => source.aggregator.toLowerCase() === key)
+      .map(source => source.asset);
+  }
+
+  // Store source (used by discovery and tests)
+  set(source: OracleSource): void {
+    this.sources.set(source.asset, source);
+  }
+
+  // Resolve the sources of the given assets
+  async discover(provider: ethers.JsonRpcProvider, assets: string[]): Promise<OracleSource[]> {
+    const resolved = await Promise.all(assets.map(asset => this.refreshAsset(provider, asset)));
+    const sources = resolved.filter((source): source is OracleSource => source !== undefined);
+
+    logger.info('Oracle sources resolved', {
+      count: sources.length,
+      sources: sources.map(s => ({ asset: s.asset, kind: s.kind, description: s.description }))
+    });
+
+    return sources;
+  }
+
+  // Re-resolve the sources of the given assets (catches AssetSourceUpdated events missed by listeners)
+  // Returns the assets whose source or aggregator changed
+  async refresh(provider: ethers.JsonRpcProvider, assets: string[]): Promise<string[]> {
+    const changed: string[] = [];
+
+    await Promise.all(assets.map(async asset => {
+      const previous = this.sources.get(asset);
+      const current = await this.refreshAsset(provider, asset);
+      // A failed read keeps the last known source
+      if (!current) return;
+      if (!previous || previous.source !== current.source || previous.aggregator !== current.aggregator) {
+        changed.push(asset);
+      }
+    }));
+
+    if (changed.length > 0) {
+      logger.info('Oracle sources changed', { assets: changed });
+    }
+    return changed;
+  }
+
+  // Check if periodic refresh is due
+  isRefreshDue(blockNumber: number, intervalBlocks: number): boolean {
+    if (intervalBlocks <= 0) return false;
+    return blockNumber - this.lastRefreshBlock >= intervalBlocks;
+  }
+
+  // Mark refresh as started at block (prevents overlapping refreshes)
+  markRefreshed(blockNumber: number): void {
+    this.lastRefreshBlock = blockNumber;
+  }
+
+  // Re-read one asset's source (e.g. after AaveOracle.setAssetSources)
+  async refreshAsset(provider: ethers.JsonRpcProvider, asset: string): Promise<OracleSource | undefined> {
+    const config = getConfig();
+    const multicall = getMulticall(provider);
+
+    try {
+      const source = await multicall.call<string>(
+        getAaveAddresses().oracle,
+        ORACLE_INTERFACE,
+        'getSourceOfAsset',
+        [getTokenAddress(asset)]
+      );
+      if (!source || source === ethers.ZeroAddress) {
+        logger.warn('No oracle source for asset', { asset });
+        return undefined;
+      }
+
+      const [baseFeed, ratioProvider, decimals, description] = await Promise.all([
+        multicall.call<string>(source, CAPO_INTERFACE, 'BASE_TO_USD_AGGREGATOR'),
+        multicall.call<string>(source, CAPO_INTERFACE, 'RATIO_PROVIDER'),
+        multicall.call<bigint>(source, AGGREGATOR_INTERFACE, 'decimals'),
+        multicall.call<string>(source, AGGREGATOR_INTERFACE, 'description')
+      ]);
+
+      const kind: OracleSourceKind = baseFeed ? 'capo' : decimals !== null ? 'chainlink' : 'unknown';
+      const feed = baseFeed ?? source;
+
+      const oracleSource: OracleSource = {
+        asset,
+        source,
+        kind,
+        feed,
+        aggregator: kind === 'unknown' ? source : await resolveAggregator(provider, feed),
+        ratioProvider: ratioProvider ?? undefined,
+        decimals: decimals !== null ? Number(decimals) : null,
+        description: description ?? '',
+        heartbeatSec: config.chainlinkHeartbeatMap.get(asset) ?? config.chainlinkDefaultHeartbeatSec,
+        resolvedAt: Date.now()
+      };
+      this.sources.set(asset, oracleSource);
+
+      logger.debug('Oracle source resolved', { ...oracleSource });
+      return oracleSource;
+    } catch (error) {
+      logger.error('Failed to resolve oracle source', { asset, error });
+      return undefined;
+    }
+  }
+
+  // Clear registry (for testing)
+  clear(): void {
+    this.sources.clear();
+    this.lastRefreshBlock = 0;
+  }
+}
+
+// Export singleton instance
+export const oracleSources = new OracleSourceRegistry();
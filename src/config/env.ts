@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import chokidar from 'chokidar';
 import logger, { setLogLevel } from '../logging/logger';
+import { PRICE_SOURCE_NAMES, isPriceSourceName } from '../prices/source';
 
 // Configuration interface
 export interface BotConfig {
@@ -30,11 +31,14 @@ export interface BotConfig {
   // Execution parameters
   minProfitUsd: number;
   maxGasUsd: number;
+  flashLoanFeeBps: number;
+  swapLossBps: number;
   enableExecution: boolean;
   dryRun: boolean;
   maxConcurrentTx: number;
+  maxQueueChecksPerBlock: number;
   
-  // Target assets
+  // Target assets (optional liquidation filters, empty = all reserves)
   targetDebtAssets: string[];
   targetCollateralAssets: string[];
   
@@ -42,10 +46,26 @@ export interface BotConfig {
   binanceWsUrl: string;
   binanceSymbols: string[];
   binanceSymbolMap: Map<string, string>;
+  binanceStreamType: 'trade' | 'aggTrade' | 'bookTicker';
+  binanceWatchdogMs: number;
+  binanceReconnectMaxMs: number;
+  binanceRotateMs: number;
   pythWsUrl: string;
   pythFeedIds: string[];
   pythFeedMap: Map<string, string>;
+  pythMaxConfBps: number;
+  coinbaseWsUrl: string;
+  coinbaseSymbolMap: Map<string, string>;
+  okxWsUrl: string;
+  okxSymbolMap: Map<string, string>;
+  bybitWsUrl: string;
+  bybitSymbolMap: Map<string, string>;
+  conservativePricing: boolean;
   priceStaleMs: number;
+  priceMaxAgeMap: Map<string, number>;
+  priceMaxDeviationBps: number;
+  priceSources: string[];
+  priceSourceWeights: Map<string, number>;
   
   // Relay
   relayMode: 'none' | 'flashbots' | 'custom';
@@ -75,6 +95,19 @@ export interface BotConfig {
   eventConfirmations: number;
   maxTxRetry: number;
   txTimeout: number;
+  reserveConfigRefreshBlocks: number;
+  reserveIndexRefreshBlocks: number;
+  multicallBatchSize: number;
+  seedHydrationConcurrency: number;
+  checkpointFile: string;
+  snapshotFile: string;
+  snapshotIntervalBlocks: number;
+  chainlinkDeviationBpsMap: Map<string, number>;
+  chainlinkHeartbeatMap: Map<string, number>;
+  chainlinkDefaultDeviationBps: number;
+  chainlinkDefaultHeartbeatSec: number;
+  derivedPriceMap: Map<string, string>;
+  derivedRatioRefreshBlocks: number;
 }
 
 // Global config instance
@@ -110,22 +143,41 @@ function parseConfig(): BotConfig {
     // Execution parameters
     minProfitUsd: parseFloat(process.env.MIN_PROFIT_USD || '50'),
     maxGasUsd: parseFloat(process.env.MAX_GAS_USD || '20'),
+    flashLoanFeeBps: parseFloat(process.env.FLASH_LOAN_FEE_BPS || '0'),
+    swapLossBps: parseFloat(process.env.SWAP_LOSS_BPS || '30'),
     enableExecution: process.env.ENABLE_EXECUTION === 'true',
     dryRun: process.env.DRY_RUN !== 'false',
     maxConcurrentTx: parseInt(process.env.MAX_CONCURRENT_TX || '1', 10),
+    maxQueueChecksPerBlock: parseInt(process.env.MAX_QUEUE_CHECKS_PER_BLOCK || '500', 10),
     
     // Target assets
-    targetDebtAssets: (process.env.TARGET_DEBT_ASSETS || 'USDC').split(',').map(s => s.trim()),
-    targetCollateralAssets: (process.env.TARGET_COLLATERAL_ASSETS || 'WETH,cbETH').split(',').map(s => s.trim()),
+    targetDebtAssets: (process.env.TARGET_DEBT_ASSETS || '').split(',').map(s => s.trim()).filter(s => s),
+    targetCollateralAssets: (process.env.TARGET_COLLATERAL_ASSETS || '').split(',').map(s => s.trim()).filter(s => s),
     
     // Price feeds
     binanceWsUrl: process.env.BINANCE_WS_URL || 'wss://stream.binance.com:9443/ws',
     binanceSymbols: (process.env.PRICE_BINANCE_SYMBOLS || 'ETHUSDT,USDCUSDT').split(',').map(s => s.trim()),
-    binanceSymbolMap: parseMapFromEnv(process.env.BINANCE_SYMBOL_MAP || 'WETH:ETHUSDT,USDC:USDCUSDT,cbETH:ETHUSDT'),
+    binanceSymbolMap: parseMapFromEnv(process.env.BINANCE_SYMBOL_MAP || 'WETH:ETHUSDT,USDC:USDCUSDT'),
+    binanceStreamType: (process.env.BINANCE_STREAM_TYPE || 'trade') as 'trade' | 'aggTrade' | 'bookTicker',
+    binanceWatchdogMs: parseInt(process.env.BINANCE_WATCHDOG_MS || '15000', 10),
+    binanceReconnectMaxMs: parseInt(process.env.BINANCE_RECONNECT_MAX_MS || '30000', 10),
+    binanceRotateMs: parseInt(process.env.BINANCE_ROTATE_MS || '82800000', 10),
     pythWsUrl: process.env.PYTH_WS_URL || 'wss://hermes.pyth.network/ws',
     pythFeedIds: (process.env.PYTH_PRICE_FEED_IDS || '').split(',').map(s => s.trim()).filter(s => s),
     pythFeedMap: parseMapFromEnv(process.env.PYTH_FEED_MAP || ''),
+    pythMaxConfBps: parseFloat(process.env.PYTH_MAX_CONF_BPS || '50'),
+    coinbaseWsUrl: process.env.COINBASE_WS_URL || 'wss://advanced-trade-ws.coinbase.com',
+    coinbaseSymbolMap: parseMapFromEnv(process.env.COINBASE_SYMBOL_MAP || ''),
+    okxWsUrl: process.env.OKX_WS_URL || 'wss://ws.okx.com:8443/ws/v5/public',
+    okxSymbolMap: parseMapFromEnv(process.env.OKX_SYMBOL_MAP || ''),
+    bybitWsUrl: process.env.BYBIT_WS_URL || 'wss://stream.bybit.com/v5/public/spot',
+    bybitSymbolMap: parseMapFromEnv(process.env.BYBIT_SYMBOL_MAP || ''),
+    conservativePricing: process.env.CONSERVATIVE_PRICING === 'true',
     priceStaleMs: parseInt(process.env.PRICE_STALE_MS || '5000', 10),
+    priceMaxAgeMap: parseNumberMapFromEnv(process.env.PRICE_MAX_AGE_MAP || ''),
+    priceMaxDeviationBps: parseFloat(process.env.PRICE_MAX_DEVIATION_BPS || '100'),
+    priceSources: (process.env.PRICE_SOURCES || 'binance,pyth,derived').split(',').map(s => s.trim()).filter(s => s),
+    priceSourceWeights: parseNumberMapFromEnv(process.env.PRICE_SOURCE_WEIGHTS || ''),
     
     // Relay
     relayMode: (process.env.RELAY_MODE || 'none') as 'none' | 'flashbots' | 'custom',
@@ -155,6 +207,19 @@ function parseConfig(): BotConfig {
     eventConfirmations: parseInt(process.env.EVENT_CONFIRMATIONS || '0', 10),
     maxTxRetry: parseInt(process.env.MAX_TX_RETRY || '1', 10),
     txTimeout: parseInt(process.env.TX_TIMEOUT || '60', 10),
+    reserveConfigRefreshBlocks: parseInt(process.env.RESERVE_CONFIG_REFRESH_BLOCKS || '1800', 10),
+    reserveIndexRefreshBlocks: parseInt(process.env.RESERVE_INDEX_REFRESH_BLOCKS || '30', 10),
+    multicallBatchSize: parseInt(process.env.MULTICALL_BATCH_SIZE || '500', 10),
+    seedHydrationConcurrency: parseInt(process.env.SEED_HYDRATION_CONCURRENCY || '100', 10),
+    checkpointFile: process.env.CHECKPOINT_FILE || './data/checkpoint.json',
+    snapshotFile: process.env.SNAPSHOT_FILE || './data/registry.jsonl',
+    snapshotIntervalBlocks: parseInt(process.env.SNAPSHOT_INTERVAL_BLOCKS || '150', 10),
+    chainlinkDeviationBpsMap: parseNumberMapFromEnv(process.env.CHAINLINK_DEVIATION_BPS_MAP || ''),
+    chainlinkHeartbeatMap: parseNumberMapFromEnv(process.env.CHAINLINK_HEARTBEAT_MAP || ''),
+    chainlinkDefaultDeviationBps: parseFloat(process.env.CHAINLINK_DEFAULT_DEVIATION_BPS || '50'),
+    chainlinkDefaultHeartbeatSec: parseInt(process.env.CHAINLINK_DEFAULT_HEARTBEAT_SEC || '86400', 10),
+    derivedPriceMap: parseMapFromEnv(process.env.DERIVED_PRICE_MAP || 'wstETH:WETH,weETH:WETH,cbETH:WETH'),
+    derivedRatioRefreshBlocks: parseInt(process.env.DERIVED_RATIO_REFRESH_BLOCKS || '150', 10),
   };
 }
 
@@ -173,6 +238,18 @@ function parseMapFromEnv(envValue: string): Map<string, string> {
   return map;
 }
 
+// Parse numeric map from environment variable (format: KEY1:123,KEY2:45.6)
+function parseNumberMapFromEnv(envValue: string): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const [key, value] of parseMapFromEnv(envValue)) {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) {
+      map.set(key, parsed);
+    }
+  }
+  return map;
+}
+
 // Load configuration
 export function loadConfig(): BotConfig {
   // Load .env file
@@ -296,6 +373,29 @@ export function validateConfig(): void {
     errors.push('HF_CRITICAL must be greater than HF_LIQUIDATABLE');
   }
   
+  if (!(config.maxQueueChecksPerBlock > 0)) {
+    errors.push('MAX_QUEUE_CHECKS_PER_BLOCK must be positive');
+  }
+  
+  if (!['trade', 'aggTrade', 'bookTicker'].includes(config.binanceStreamType)) {
+    errors.push('BINANCE_STREAM_TYPE must be trade, aggTrade or bookTicker');
+  }
+  
+  for (const source of config.priceSources) {
+    if (!isPriceSourceName(source)) {
+      errors.push(`PRICE_SOURCES contains unknown source ${source} (expected ${PRICE_SOURCE_NAMES.join(', ')})`);
+    }
+  }
+  
+  for (const [source, weight] of config.priceSourceWeights) {
+    if (!isPriceSourceName(source)) {
+      errors.push(`PRICE_SOURCE_WEIGHTS contains unknown source ${source} (expected ${PRICE_SOURCE_NAMES.join(', ')})`);
+    }
+    if (weight <= 0) {
+      errors.push(`PRICE_SOURCE_WEIGHTS weight for ${source} must be positive`);
+    }
+  }
+  
   if (errors.length > 0) {
     logger.error('Configuration validation failed', { errors });
     throw new Error(`Configuration validation failed: ${errors.join(', ')}`);
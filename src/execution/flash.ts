@@ -1,8 +1,9 @@
 import { ethers } from 'ethers';
 import { Borrower } from '../state/borrower';
 import { getConfig } from '../config/env';
-import { getAssetAddress } from '../aave/addresses';
-import { estimateLiquidation } from '../hf/calc';
+import { getTokenAddress } from '../tokens';
+import { filterTargetAssets } from '../aave/discovery';
+import { estimateLiquidation, applyExecutionCosts, ProfitBreakdown } from '../hf/calc';
 import { priceAggregator } from '../prices';
 import { build1inchSwapData } from './oneinch';
 import logger from '../logging/logger';
@@ -25,6 +26,7 @@ export interface FlashLiquidationResult {
   gasUsd: number;
   oneInchData: string; // 1inch swap calldata
   minAmountOut: bigint; // Minimum amount out from swap (with slippage)
+  breakdown?: ProfitBreakdown;
   error?: string;
 }
 
@@ -53,8 +55,12 @@ export async function simulateFlashLiquidation(
     let bestDebtAsset = '';
     let bestCollateralAsset = '';
     
-    for (const debtAsset of config.targetDebtAssets) {
-      for (const collateralAsset of config.targetCollateralAssets) {
+    // Only consider the borrower's own assets that pass the TARGET_* filters
+    const debtAssets = filterTargetAssets(borrower.debtBalances.map(b => b.asset), config.targetDebtAssets);
+    const collateralAssets = filterTargetAssets(borrower.collateralBalances.map(b => b.asset), config.targetCollateralAssets);
+    
+    for (const debtAsset of debtAssets) {
+      for (const collateralAsset of collateralAssets) {
         const estimate = estimateLiquidation(borrower, prices, debtAsset, collateralAsset);
         
         if (estimate && (!bestEstimate || estimate.profitUsd > bestEstimate.profitUsd)) {
@@ -80,9 +86,18 @@ export async function simulateFlashLiquidation(
       };
     }
     
+    logger.debug('Liquidation sizing selected', {
+      borrower: borrower.address,
+      debtAsset: bestDebtAsset,
+      collateralAsset: bestCollateralAsset,
+      debtToCover: bestEstimate.debtAmount.toString(),
+      closeFactor: bestEstimate.closeFactor,
+      profitUsd: bestEstimate.profitUsd.toFixed(2)
+    });
+    
     // Get asset addresses
-    const debtAssetAddress = getAssetAddress(bestDebtAsset);
-    const collateralAssetAddress = getAssetAddress(bestCollateralAsset);
+    const debtAssetAddress = getTokenAddress(bestDebtAsset);
+    const collateralAssetAddress = getTokenAddress(bestCollateralAsset);
     
     // Build 1inch swap data for collateral -> debt swap
     const oneInchSwap = await build1inchSwapData(
@@ -187,19 +202,30 @@ export async function simulateFlashLiquidation(
     const ethPrice = prices.get('WETH')?.priceUsd || 2000;
     const gasUsd = Number(gasEstimate * maxFeePerGas) / 1e18 * ethPrice;
     
-    // Check profitability
-    if (bestEstimate.profitUsd < config.minProfitUsd) {
+    // Net out flash loan fee, swap haircut and gas
+    const breakdown = applyExecutionCosts(bestEstimate, {
+      flashFeeBps: config.flashLoanFeeBps,
+      swapLossBps: config.swapLossBps,
+      gasUsd
+    });
+    
+    // Profit after protocol fee, flash fee and swap loss, before gas
+    const expectedProfit = breakdown.netProfitUsd + gasUsd;
+    
+    // Check profitability (net of all costs)
+    if (breakdown.netProfitUsd < config.minProfitUsd) {
       return {
         success: false,
         debtAsset: bestDebtAsset,
         collateralAsset: bestCollateralAsset,
         debtAmount: bestEstimate.debtAmount,
-        expectedProfit: bestEstimate.profitUsd,
+        expectedProfit,
         gasEstimate,
         gasUsd,
         oneInchData: oneInchSwap.calldata,
         minAmountOut: oneInchSwap.minAmountOut,
-        error: `Profit too low: $${bestEstimate.profitUsd.toFixed(2)} < $${config.minProfitUsd}`
+        breakdown,
+        error: `Net profit too low: $${breakdown.netProfitUsd.toFixed(2)} < $${config.minProfitUsd}`
       };
     }
     
@@ -210,11 +236,12 @@ export async function simulateFlashLiquidation(
         debtAsset: bestDebtAsset,
         collateralAsset: bestCollateralAsset,
         debtAmount: bestEstimate.debtAmount,
-        expectedProfit: bestEstimate.profitUsd,
+        expectedProfit,
         gasEstimate,
         gasUsd,
         oneInchData: oneInchSwap.calldata,
         minAmountOut: oneInchSwap.minAmountOut,
+        breakdown,
         error: `Gas too high: $${gasUsd.toFixed(2)} > $${config.maxGasUsd}`
       };
     }
@@ -224,11 +251,12 @@ export async function simulateFlashLiquidation(
       debtAsset: bestDebtAsset,
       collateralAsset: bestCollateralAsset,
       debtAmount: bestEstimate.debtAmount,
-      expectedProfit: bestEstimate.profitUsd,
+      expectedProfit,
       gasEstimate,
       gasUsd,
       oneInchData: oneInchSwap.calldata,
-      minAmountOut: oneInchSwap.minAmountOut
+      minAmountOut: oneInchSwap.minAmountOut,
+      breakdown
     };
   } catch (error: any) {
     logger.error('Flash liquidation simulation error', {
@@ -274,8 +302,8 @@ export async function buildFlashLiquidationTx(
   
   try {
     // Get asset addresses
-    const debtAssetAddress = getAssetAddress(flashResult.debtAsset);
-    const collateralAssetAddress = getAssetAddress(flashResult.collateralAsset);
+    const debtAssetAddress = getTokenAddress(flashResult.debtAsset);
+    const collateralAssetAddress = getTokenAddress(flashResult.collateralAsset);
     
     // Create FlashLiquidator contract instance
     const flashLiquidator = new ethers.Contract(
@@ -347,8 +375,8 @@ export async function executeFlashLiquidation(
   
   try {
     // Get asset addresses
-    const debtAssetAddress = getAssetAddress(flashResult.debtAsset);
-    const collateralAssetAddress = getAssetAddress(flashResult.collateralAsset);
+    const debtAssetAddress = getTokenAddress(flashResult.debtAsset);
+    const collateralAssetAddress = getTokenAddress(flashResult.collateralAsset);
     
     // Create FlashLiquidator contract instance
     const flashLiquidator = new ethers.Contract(
@@ -1,12 +1,20 @@
 import { ethers } from 'ethers';
 import { Borrower } from '../state/borrower';
-import { getAaveAddresses, AAVE_POOL_ABI, AAVE_ORACLE_ABI } from '../aave/addresses';
+import { getAaveAddresses, AAVE_POOL_ABI, AAVE_ORACLE_ABI, ERC20_ABI } from '../aave/addresses';
 import { getTokenAddress } from '../tokens';
-import { estimateLiquidation } from '../hf/calc';
+import { filterTargetAssets } from '../aave/discovery';
+import { estimateLiquidation, applyExecutionCosts, ProfitBreakdown, PriceData } from '../hf/calc';
 import { priceAggregator } from '../prices';
 import { getConfig } from '../config/env';
+import { getMulticall } from '../rpc/multicall';
 import logger from '../logging/logger';
 
+const ORACLE_INTERFACE = new ethers.Interface(AAVE_ORACLE_ABI);
+const ERC20_INTERFACE = new ethers.Interface(ERC20_ABI);
+
+// Gas assumed for liquidationCall when it cannot be estimated yet (oracle not updated)
+const PREDICTED_LIQUIDATION_GAS = 600000n;
+
 // Simulation result
 export interface SimulationResult {
   success: boolean;
@@ -18,14 +26,22 @@ export interface SimulationResult {
   gasEstimate: bigint;
   gasUsd: number;
   oracleHF: number;
+  breakdown?: ProfitBreakdown;
   error?: string;
 }
 
+// Simulation overrides
+export interface SimulationOptions {
+  prices?: Map<string, PriceData>; // Prices to size the liquidation with (default: aggregator prices)
+  expectedOracleUpdate?: boolean; // Preparing ahead of an oracle update: skip the on-chain HF check and gas estimate
+}
+
 // Simulate liquidation using callStatic
 export async function simulateLiquidation(
   provider: ethers.JsonRpcProvider,
   borrower: Borrower,
-  _liquidatorAddress: string
+  _liquidatorAddress: string,
+  options: SimulationOptions = {}
 ): Promise<SimulationResult | null> {
   const config = getConfig();
   const addresses = getAaveAddresses();
@@ -39,15 +55,19 @@ export async function simulateLiquidation(
   
   try {
     // Get current prices
-    const prices = priceAggregator.getAllPrices();
+    const prices = options.prices ?? priceAggregator.getAllPrices();
     
     // Find best liquidation opportunity
     let bestEstimate: ReturnType<typeof estimateLiquidation> = null;
     let bestDebtAsset = '';
     let bestCollateralAsset = '';
     
-    for (const debtAsset of config.targetDebtAssets) {
-      for (const collateralAsset of config.targetCollateralAssets) {
+    // Only consider the borrower's own assets that pass the TARGET_* filters
+    const debtAssets = filterTargetAssets(borrower.debtBalances.map(b => b.asset), config.targetDebtAssets);
+    const collateralAssets = filterTargetAssets(borrower.collateralBalances.map(b => b.asset), config.targetCollateralAssets);
+    
+    for (const debtAsset of debtAssets) {
+      for (const collateralAsset of collateralAssets) {
         const estimate = estimateLiquidation(borrower, prices, debtAsset, collateralAsset);
         
         if (estimate && (!bestEstimate || estimate.profitUsd > bestEstimate.profitUsd)) {
@@ -73,14 +93,25 @@ export async function simulateLiquidation(
       };
     }
     
+    logger.debug('Liquidation sizing selected', {
+      borrower: borrower.address,
+      debtAsset: bestDebtAsset,
+      collateralAsset: bestCollateralAsset,
+      debtToCover: bestEstimate.debtAmount.toString(),
+      closeFactor: bestEstimate.closeFactor,
+      profitUsd: bestEstimate.profitUsd.toFixed(2)
+    });
+    
     // Get asset addresses
     const debtAssetAddress = getTokenAddress(bestDebtAsset);
     const collateralAssetAddress = getTokenAddress(bestCollateralAsset);
     
-    // Verify oracle HF first
-    const oracleHF = await getOracleHealthFactor(provider, borrower.address);
+    // Verify oracle HF first (the call would revert until the predicted oracle update lands)
+    const oracleHF = options.expectedOracleUpdate
+      ? borrower.oracleHF
+      : await getOracleHealthFactor(provider, borrower.address);
     
-    if (oracleHF > config.hfLiquidatable) {
+    if (!options.expectedOracleUpdate && oracleHF > config.hfLiquidatable) {
       return {
         success: false,
         debtAsset: bestDebtAsset,
@@ -96,32 +127,45 @@ export async function simulateLiquidation(
     }
     
     // Simulate liquidation call
-    const gasEstimate = await poolContract.liquidationCall.estimateGas(
-      collateralAssetAddress,
-      debtAssetAddress,
-      borrower.address,
-      bestEstimate.debtAmount,
-      false // receiveAToken
-    );
+    const gasEstimate = options.expectedOracleUpdate
+      ? PREDICTED_LIQUIDATION_GAS
+      : await poolContract.liquidationCall.estimateGas(
+        collateralAssetAddress,
+        debtAssetAddress,
+        borrower.address,
+        bestEstimate.debtAmount,
+        false // receiveAToken
+      );
     
     // Get current base fee
     const feeData = await provider.getFeeData();
     const maxFeePerGas = feeData.maxFeePerGas || 0n;
     const gasUsd = Number(gasEstimate * maxFeePerGas) / 1e18 * (prices.get('WETH')?.priceUsd || 2000);
     
-    // Check profitability
-    if (bestEstimate.profitUsd < config.minProfitUsd) {
+    // Net out execution costs (direct liquidation uses own funds, no flash loan fee)
+    const breakdown = applyExecutionCosts(bestEstimate, {
+      flashFeeBps: 0,
+      swapLossBps: config.swapLossBps,
+      gasUsd
+    });
+    
+    // Profit after protocol fee and swap loss, before gas
+    const profitUsd = breakdown.netProfitUsd + gasUsd;
+    
+    // Check profitability (net of all costs)
+    if (breakdown.netProfitUsd < config.minProfitUsd) {
       return {
         success: false,
         debtAsset: bestDebtAsset,
         collateralAsset: bestCollateralAsset,
         debtToCover: bestEstimate.debtAmount,
         expectedCollateral: bestEstimate.collateralAmount,
-        profitUsd: bestEstimate.profitUsd,
+        profitUsd,
         gasEstimate,
         gasUsd,
         oracleHF,
-        error: `Profit too low: $${bestEstimate.profitUsd.toFixed(2)} < $${config.minProfitUsd}`
+        breakdown,
+        error: `Net profit too low: $${breakdown.netProfitUsd.toFixed(2)} < $${config.minProfitUsd}`
       };
     }
     
@@ -132,10 +176,11 @@ export async function simulateLiquidation(
         collateralAsset: bestCollateralAsset,
         debtToCover: bestEstimate.debtAmount,
         expectedCollateral: bestEstimate.collateralAmount,
-        profitUsd: bestEstimate.profitUsd,
+        profitUsd,
         gasEstimate,
         gasUsd,
         oracleHF,
+        breakdown,
         error: `Gas too high: $${gasUsd.toFixed(2)} > $${config.maxGasUsd}`
       };
     }
@@ -146,10 +191,11 @@ export async function simulateLiquidation(
       collateralAsset: bestCollateralAsset,
       debtToCover: bestEstimate.debtAmount,
       expectedCollateral: bestEstimate.collateralAmount,
-      profitUsd: bestEstimate.profitUsd,
+      profitUsd,
       gasEstimate,
       gasUsd,
-      oracleHF
+      oracleHF,
+      breakdown
     };
   } catch (error: any) {
     logger.error('Simulation failed', {
@@ -197,30 +243,32 @@ export async function getOracleHealthFactor(
   }
 }
 
-// Get asset prices from Aave oracle
+// Get asset prices from Aave oracle (batched via Multicall3, per-asset failure tolerance)
 export async function getOraclePrices(
   provider: ethers.JsonRpcProvider,
   assets: string[]
 ): Promise<Map<string, number>> {
   const addresses = getAaveAddresses();
   const prices = new Map<string, number>();
+  const multicall = getMulticall(provider);
   
-  const oracleContract = new ethers.Contract(
-    addresses.oracle,
-    AAVE_ORACLE_ABI,
-    provider
-  );
+  const oraclePrices = await Promise.all(assets.map(asset => {
+    try {
+      return multicall.call<bigint>(addresses.oracle, ORACLE_INTERFACE, 'getAssetPrice', [getTokenAddress(asset)]);
+    } catch (error) {
+      logger.error('Failed to resolve asset address for oracle price', { asset, error });
+      return Promise.resolve(null);
+    }
+  }));
   
-  try {
-    const assetAddresses = assets.map(asset => getTokenAddress(asset));
-    const oraclePrices = await oracleContract.getAssetsPrices(assetAddresses);
-    
-    for (let i = 0; i < assets.length; i++) {
-      // Aave oracle returns prices in 8 decimals USD
-      prices.set(assets[i], Number(oraclePrices[i]) / 1e8);
+  for (let i = 0; i < assets.length; i++) {
+    const price = oraclePrices[i];
+    if (price === null) {
+      logger.error('Failed to get oracle price', { asset: assets[i] });
+      continue;
     }
-  } catch (error) {
-    logger.error('Failed to get oracle prices', { error });
+    // Aave oracle returns prices in 8 decimals USD
+    prices.set(assets[i], Number(price) / 1e8);
   }
   
   return prices;
@@ -237,9 +285,15 @@ export async function getTotalDebtUSD(
   
   // Get unique debt assets
   const debtAssets = [...new Set(borrower.debtBalances.map(b => b.asset))];
+  const multicall = getMulticall(provider);
   
-  // Get oracle prices
-  const oraclePrices = await getOraclePrices(provider, debtAssets);
+  // Get oracle prices and decimals in the same multicall batch
+  const [oraclePrices, decimals] = await Promise.all([
+    getOraclePrices(provider, debtAssets),
+    Promise.all(debtAssets.map(asset =>
+      multicall.call<bigint>(getTokenAddress(asset), ERC20_INTERFACE, 'decimals')
+    ))
+  ]);
   
   // Compute total debt USD
   let totalDebtUSD = 0;
@@ -251,18 +305,14 @@ export async function getTotalDebtUSD(
       continue;
     }
     
-    // Get decimals for the asset using address
-    const assetAddress = getTokenAddress(debtBalance.asset);
-    const ERC20_ABI = ['function decimals() external view returns (uint8)'];
-    const tokenContract = new ethers.Contract(assetAddress, ERC20_ABI, provider);
-    
-    try {
-      const decimals = await tokenContract.decimals();
-      const amount = Number(debtBalance.amount) / Math.pow(10, decimals);
-      totalDebtUSD += amount * price;
-    } catch (error) {
-      logger.error('Failed to get decimals for asset address', { asset: debtBalance.asset, address: assetAddress, error });
+    const assetDecimals = decimals[debtAssets.indexOf(debtBalance.asset)];
+    if (assetDecimals === null) {
+      logger.error('Failed to get decimals for asset address', { asset: debtBalance.asset });
+      continue;
     }
+    
+    const amount = Number(debtBalance.amount) / Math.pow(10, Number(assetDecimals));
+    totalDebtUSD += amount * price;
   }
   
   return totalDebtUSD;
@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import { SimulationResult } from './sim';
-import { getAaveAddresses, AAVE_POOL_ABI, getAssetAddress, ERC20_ABI } from '../aave/addresses';
+import { getAaveAddresses, AAVE_POOL_ABI, ERC20_ABI } from '../aave/addresses';
+import { getTokenAddress } from '../tokens';
 import { CachedTransaction } from '../state/borrower';
 import { getConfig } from '../config/env';
 import logger from '../logging/logger';
@@ -28,8 +29,8 @@ export async function buildLiquidationTx(
     );
     
     // Get asset addresses
-    const debtAssetAddress = getAssetAddress(simResult.debtAsset);
-    const collateralAssetAddress = getAssetAddress(simResult.collateralAsset);
+    const debtAssetAddress = getTokenAddress(simResult.debtAsset);
+    const collateralAssetAddress = getTokenAddress(simResult.collateralAsset);
     
     // Check and approve debt asset if needed
     await ensureApproval(signer, debtAssetAddress, addresses.pool, simResult.debtToCover);
@@ -60,6 +61,7 @@ export async function buildLiquidationTx(
       maxPriorityFeePerGas,
       expectedProfitUsd: simResult.profitUsd,
       estimatedGasUsd: simResult.gasUsd,
+      profitBreakdown: simResult.breakdown,
       preparedAt: Date.now()
     };
     
@@ -0,0 +1,72 @@
+import { MAX_UINT256, percentMul, wadDiv } from './math';
+
+// Per-reserve input for the account data calculation
+// Balances are current (index-applied) token amounts in native decimals
+export interface AccountReserveInput {
+  asset: string;
+  decimals: number;
+  priceBase: bigint; // Oracle price in base currency (8 decimals)
+  collateralBalance: bigint;
+  debtBalance: bigint;
+  usageAsCollateralEnabled: boolean;
+  ltv: bigint; // Basis points (E-Mode value if applicable)
+  liquidationThreshold: bigint; // Basis points (E-Mode value if applicable)
+}
+
+// Same fields as Pool.getUserAccountData
+export interface UserAccountData {
+  totalCollateralBase: bigint;
+  totalDebtBase: bigint;
+  currentLiquidationThreshold: bigint; // Basis points
+  ltv: bigint; // Basis points
+  healthFactor: bigint; // Wad (MAX_UINT256 when there is no debt)
+}
+
+// Reproduces GenericLogic.calculateUserAccountData with exact integer arithmetic
+export function calculateUserAccountData(reserves: AccountReserveInput[]): UserAccountData {
+  let totalCollateralBase = 0n;
+  let totalDebtBase = 0n;
+  let avgLtv = 0n;
+  let avgLiquidationThreshold = 0n;
+
+  for (const reserve of reserves) {
+    if (reserve.priceBase === 0n) continue;
+
+    const assetUnit = 10n ** BigInt(reserve.decimals);
+
+    // Collateral only counts if it has a liquidation threshold and is enabled as collateral
+    if (reserve.liquidationThreshold !== 0n && reserve.usageAsCollateralEnabled && reserve.collateralBalance > 0n) {
+      const balanceBase = (reserve.collateralBalance * reserve.priceBase) / assetUnit;
+
+      totalCollateralBase += balanceBase;
+      if (reserve.ltv !== 0n) {
+        avgLtv += balanceBase * reserve.ltv;
+      }
+      avgLiquidationThreshold += balanceBase * reserve.liquidationThreshold;
+    }
+
+    if (reserve.debtBalance > 0n) {
+      totalDebtBase += (reserve.debtBalance * reserve.priceBase) / assetUnit;
+    }
+  }
+
+  if (totalCollateralBase !== 0n) {
+    avgLtv = avgLtv / totalCollateralBase;
+    avgLiquidationThreshold = avgLiquidationThreshold / totalCollateralBase;
+  } else {
+    avgLtv = 0n;
+    avgLiquidationThreshold = 0n;
+  }
+
+  const healthFactor = totalDebtBase === 0n
+    ? MAX_UINT256
+    : wadDiv(percentMul(totalCollateralBase, avgLiquidationThreshold), totalDebtBase);
+
+  return {
+    totalCollateralBase,
+    totalDebtBase,
+    currentLiquidationThreshold: avgLiquidationThreshold,
+    ltv: avgLtv,
+    healthFactor
+  };
+}
@@ -1,9 +1,15 @@
 import { Borrower, BorrowerBalance } from '../state/borrower';
 import { getTokenDecimalsSync } from '../tokens';
+import { reserveConfigCache } from '../aave/reserves';
+import { eModeCache, isCollateralInEMode, EModeCategory } from '../aave/emode';
+import { calculateUserAccountData, AccountReserveInput } from './account';
+import { PERCENTAGE_FACTOR, toBasePrice, toBps, wadToHealthFactor } from './math';
+import { sizeLiquidation } from './sizing';
+import { PriceSourceName } from '../prices/source';
 import logger from '../logging/logger';
 
-// Aave liquidation threshold (from protocol, typically stored per asset)
-// This should be fetched from Aave protocol data, but we use reasonable defaults
+// Fallback liquidation thresholds, only used until on-chain reserve
+// configuration has been loaded into reserveConfigCache
 const DEFAULT_LIQUIDATION_THRESHOLDS: Record<string, number> = {
   'WETH': 0.825, // 82.5%
   'cbETH': 0.78, // 78%
@@ -12,94 +18,176 @@ const DEFAULT_LIQUIDATION_THRESHOLDS: Record<string, number> = {
   'DAI': 0.80, // 80%
 };
 
+// Fallback liquidation bonus when reserve configuration is not loaded
+const DEFAULT_LIQUIDATION_BONUS = 0.05;
+
 // Price data interface
 export interface PriceData {
   asset: string;
   priceUsd: number;
   timestamp: number;
-  source: 'binance' | 'pyth' | 'oracle';
+  source: PriceSourceName | 'oracle'; // derived: base asset price × exchange rate
+  confUsd?: number; // Confidence interval (Pyth), ± around priceUsd
+  publishTime?: number; // Source publish time in seconds (Pyth)
+  emaPriceUsd?: number; // Exponentially-weighted moving average price (Pyth)
+  emaConfUsd?: number;
 }
 
-// Calculate Health Factor
-// HF = (Σ collateral_value × liquidation_threshold) / total_debt
-export function calculateHealthFactor(
+// Conservative price of a balance: collateral at price - conf, debt at price + conf
+export function getConservativePrice(price: PriceData, side: 'collateral' | 'debt'): number {
+  const conf = price.confUsd ?? 0;
+  return side === 'collateral' ? Math.max(0, price.priceUsd - conf) : price.priceUsd + conf;
+}
+
+// Build exact-math account inputs from cached balances and off-chain prices
+export function buildAccountInputs(
   collateralBalances: BorrowerBalance[],
   debtBalances: BorrowerBalance[],
   prices: Map<string, PriceData>,
-  liquidationThresholds?: Map<string, number>
-): number {
-  // If no debt, HF is infinite
-  const totalDebt = debtBalances.reduce((sum, balance) => {
+  liquidationThresholds?: Map<string, number>,
+  eModeCategory: number = 0,
+  conservative: boolean = false
+): AccountReserveInput[] {
+  const inputs: AccountReserveInput[] = [];
+  
+  for (const balance of collateralBalances) {
     const price = prices.get(balance.asset);
     if (!price) {
-      logger.warn('Price not found for debt asset', { asset: balance.asset });
-      return sum;
+      logger.warn('Price not found for collateral asset', { asset: balance.asset });
+      continue;
     }
-    const decimals = getTokenDecimalsSync(balance.asset);
-    return sum + (Number(balance.amount) * price.priceUsd / Math.pow(10, decimals));
-  }, 0);
-  
-  if (totalDebt === 0) {
-    return Infinity;
+    
+    // Get liquidation threshold for this asset
+    const threshold = liquidationThresholds?.get(balance.asset) ?? 
+                     getLiquidationThreshold(balance.asset, eModeCategory);
+    
+    inputs.push({
+      asset: balance.asset,
+      decimals: getTokenDecimalsSync(balance.asset),
+      priceBase: toBasePrice(conservative ? getConservativePrice(price, 'collateral') : price.priceUsd),
+      collateralBalance: balance.amount,
+      debtBalance: 0n,
+      usageAsCollateralEnabled: true,
+      ltv: toBps(getLtv(balance.asset, eModeCategory)),
+      liquidationThreshold: toBps(threshold)
+    });
   }
   
-  // Calculate weighted collateral value
-  const weightedCollateral = collateralBalances.reduce((sum, balance) => {
+  for (const balance of debtBalances) {
     const price = prices.get(balance.asset);
     if (!price) {
-      logger.warn('Price not found for collateral asset', { asset: balance.asset });
-      return sum;
+      logger.warn('Price not found for debt asset', { asset: balance.asset });
+      continue;
     }
     
-    // Get liquidation threshold for this asset
-    const threshold = liquidationThresholds?.get(balance.asset) || 
-                     DEFAULT_LIQUIDATION_THRESHOLDS[balance.asset] || 
-                     0.75; // Default fallback
-    
-    const decimals = getTokenDecimalsSync(balance.asset);
-    const collateralValue = Number(balance.amount) * price.priceUsd / Math.pow(10, decimals);
-    return sum + (collateralValue * threshold);
-  }, 0);
+    inputs.push({
+      asset: balance.asset,
+      decimals: getTokenDecimalsSync(balance.asset),
+      priceBase: toBasePrice(conservative ? getConservativePrice(price, 'debt') : price.priceUsd),
+      collateralBalance: 0n,
+      debtBalance: balance.amount,
+      usageAsCollateralEnabled: false,
+      ltv: 0n,
+      liquidationThreshold: 0n
+    });
+  }
   
-  // HF = weighted_collateral / total_debt
-  return weightedCollateral / totalDebt;
+  return inputs;
+}
+
+// Calculate Health Factor as a wad using Aave's exact integer math
+export function calculateHealthFactorWad(
+  collateralBalances: BorrowerBalance[],
+  debtBalances: BorrowerBalance[],
+  prices: Map<string, PriceData>,
+  liquidationThresholds?: Map<string, number>,
+  eModeCategory: number = 0,
+  conservative: boolean = false
+): bigint {
+  const inputs = buildAccountInputs(collateralBalances, debtBalances, prices, liquidationThresholds, eModeCategory, conservative);
+  return calculateUserAccountData(inputs).healthFactor;
+}
+
+// Calculate Health Factor
+// HF = (Σ collateral_value × liquidation_threshold) / total_debt
+// Thin float wrapper over calculateHealthFactorWad (Infinity when there is no debt)
+export function calculateHealthFactor(
+  collateralBalances: BorrowerBalance[],
+  debtBalances: BorrowerBalance[],
+  prices: Map<string, PriceData>,
+  liquidationThresholds?: Map<string, number>,
+  eModeCategory: number = 0,
+  conservative: boolean = false
+): number {
+  return wadToHealthFactor(
+    calculateHealthFactorWad(collateralBalances, debtBalances, prices, liquidationThresholds, eModeCategory, conservative)
+  );
 }
 
 // Calculate HF for a borrower using current prices
+// Conservative mode values collateral and debt at the unfavourable edge of the confidence band
 export function calculateBorrowerHF(
   borrower: Borrower,
   prices: Map<string, PriceData>,
-  liquidationThresholds?: Map<string, number>
+  liquidationThresholds?: Map<string, number>,
+  conservative: boolean = false
 ): number {
   return calculateHealthFactor(
     borrower.collateralBalances,
     borrower.debtBalances,
     prices,
-    liquidationThresholds
+    liquidationThresholds,
+    borrower.eModeCategory,
+    conservative
   );
 }
 
+// Liquidation profit breakdown (all values in USD)
+export interface ProfitBreakdown {
+  grossBonusUsd: number; // Seized collateral value minus debt covered
+  protocolFeeUsd: number; // Share of the bonus sent to the Aave treasury
+  flashFeeUsd: number; // Flash loan fee on the borrowed debt amount
+  swapLossUsd: number; // Expected collateral -> debt swap haircut
+  gasUsd: number;
+  netProfitUsd: number; // What we actually keep
+}
+
+// Execution costs applied on top of the protocol-level estimate
+export interface ExecutionCosts {
+  flashFeeBps: number;
+  swapLossBps: number;
+  gasUsd: number;
+}
+
 // Estimate liquidation profit
 export interface LiquidationEstimate {
   debtAsset: string;
   debtAmount: bigint;
   collateralAsset: string;
-  collateralAmount: bigint;
-  profitUsd: number;
+  collateralAmount: bigint; // Collateral received (net of protocol fee)
+  protocolFeeAmount: bigint;
+  profitUsd: number; // Bonus received after protocol fee, before execution costs
   debtValueUsd: number;
   collateralValueUsd: number;
   liquidationBonus: number;
+  closeFactor: number; // Fraction of debt Aave allows to be covered (0.5 or 1.0)
+  breakdown: ProfitBreakdown;
 }
 
 // Calculate potential liquidation profit
-// Aave allows liquidating up to 50% of debt and gives a 5% bonus on collateral
+// Aave allows liquidating 50% or 100% of debt (see sizing.ts) and gives the collateral reserve's bonus
 export function estimateLiquidation(
   borrower: Borrower,
   prices: Map<string, PriceData>,
   debtAsset: string,
   collateralAsset: string,
-  liquidationBonus: number = 0.05
+  liquidationBonus: number = getLiquidationBonus(collateralAsset, borrower.eModeCategory)
 ): LiquidationEstimate | null {
+  // Aave rejects liquidations on inactive or paused reserves
+  if (!isReserveLiquidatable(debtAsset) || !isReserveLiquidatable(collateralAsset)) {
+    return null;
+  }
+  
   // Find debt balance
   const debtBalance = borrower.debtBalances.find(b => b.asset === debtAsset);
   if (!debtBalance) {
@@ -119,42 +207,143 @@ export function estimateLiquidation(
     return null;
   }
   
-  // Calculate max liquidatable debt (50% of total debt)
-  const maxDebtAmount = debtBalance.amount / 2n;
+  // Size the liquidation with Aave v3.3 close factor and dust rules
+  const accountData = calculateUserAccountData(buildAccountInputs(
+    borrower.collateralBalances,
+    borrower.debtBalances,
+    prices,
+    undefined,
+    borrower.eModeCategory
+  ));
   const debtDecimals = getTokenDecimalsSync(debtAsset);
-  const debtValueUsd = Number(maxDebtAmount) * debtPrice.priceUsd / Math.pow(10, debtDecimals);
-  
-  // Calculate required collateral (with bonus)
-  const requiredCollateralValueUsd = debtValueUsd * (1 + liquidationBonus);
   const collateralDecimals = getTokenDecimalsSync(collateralAsset);
-  const requiredCollateralAmount = BigInt(Math.floor(requiredCollateralValueUsd / collateralPrice.priceUsd * Math.pow(10, collateralDecimals)));
   
-  // Check if enough collateral available
-  if (requiredCollateralAmount > collateralBalance.amount) {
+  const size = sizeLiquidation({
+    healthFactor: accountData.healthFactor,
+    totalDebtBase: accountData.totalDebtBase,
+    debtBalance: debtBalance.amount,
+    debtDecimals,
+    debtPriceBase: toBasePrice(debtPrice.priceUsd),
+    collateralBalance: collateralBalance.amount,
+    collateralDecimals,
+    collateralPriceBase: toBasePrice(collateralPrice.priceUsd),
+    liquidationBonus: PERCENTAGE_FACTOR + toBps(liquidationBonus),
+    liquidationProtocolFee: toBps(getLiquidationProtocolFee(collateralAsset))
+  });
+  
+  if (!size) {
     return null;
   }
   
-  // Calculate profit (bonus amount in USD)
-  const profitUsd = debtValueUsd * liquidationBonus;
-  const collateralValueUsd = Number(requiredCollateralAmount) * collateralPrice.priceUsd / Math.pow(10, collateralDecimals);
+  const debtValueUsd = Number(size.debtToCover) * debtPrice.priceUsd / Math.pow(10, debtDecimals);
+  const collateralValueUsd = Number(size.collateralAmount) * collateralPrice.priceUsd / Math.pow(10, collateralDecimals);
+  const protocolFeeUsd = Number(size.protocolFeeAmount) * collateralPrice.priceUsd / Math.pow(10, collateralDecimals);
+  
+  // Calculate profit (bonus amount we receive in USD)
+  const profitUsd = collateralValueUsd - debtValueUsd;
   
   return {
     debtAsset,
-    debtAmount: maxDebtAmount,
+    debtAmount: size.debtToCover,
     collateralAsset,
-    collateralAmount: requiredCollateralAmount,
+    collateralAmount: size.collateralAmount,
+    protocolFeeAmount: size.protocolFeeAmount,
     profitUsd,
     debtValueUsd,
     collateralValueUsd,
-    liquidationBonus
+    liquidationBonus,
+    closeFactor: Number(size.closeFactor) / Number(PERCENTAGE_FACTOR),
+    breakdown: {
+      grossBonusUsd: profitUsd + protocolFeeUsd,
+      protocolFeeUsd,
+      flashFeeUsd: 0,
+      swapLossUsd: 0,
+      gasUsd: 0,
+      netProfitUsd: profitUsd
+    }
   };
 }
 
-// Get default liquidation threshold for an asset
-export function getLiquidationThreshold(asset: string): number {
+// Net out flash loan fee, swap haircut and gas from a liquidation estimate
+export function applyExecutionCosts(
+  estimate: LiquidationEstimate,
+  costs: ExecutionCosts
+): ProfitBreakdown {
+  const flashFeeUsd = estimate.debtValueUsd * costs.flashFeeBps / 10000;
+  const swapLossUsd = estimate.collateralValueUsd * costs.swapLossBps / 10000;
+  
+  return {
+    grossBonusUsd: estimate.breakdown.grossBonusUsd,
+    protocolFeeUsd: estimate.breakdown.protocolFeeUsd,
+    flashFeeUsd,
+    swapLossUsd,
+    gasUsd: costs.gasUsd,
+    netProfitUsd: estimate.profitUsd - flashFeeUsd - swapLossUsd - costs.gasUsd
+  };
+}
+
+// Get the borrower's E-Mode category if it applies to this collateral asset
+function getApplicableEModeCategory(asset: string, eModeCategory: number): EModeCategory | undefined {
+  if (eModeCategory === 0) return undefined;
+  
+  const category = eModeCache.get(eModeCategory);
+  const reserveConfig = reserveConfigCache.get(asset);
+  if (!category || !reserveConfig) return undefined;
+  
+  return isCollateralInEMode(category, reserveConfig.id) ? category : undefined;
+}
+
+// Get liquidation threshold for an asset (E-Mode, on-chain config, then fallback)
+export function getLiquidationThreshold(asset: string, eModeCategory: number = 0): number {
+  const category = getApplicableEModeCategory(asset, eModeCategory);
+  if (category) {
+    return category.liquidationThreshold;
+  }
+  
+  const reserveConfig = reserveConfigCache.get(asset);
+  if (reserveConfig) {
+    return reserveConfig.liquidationThreshold;
+  }
   return DEFAULT_LIQUIDATION_THRESHOLDS[asset] || 0.75;
 }
 
+// Get loan-to-value for a collateral asset (E-Mode, then on-chain config; 0 if unknown)
+export function getLtv(asset: string, eModeCategory: number = 0): number {
+  const category = getApplicableEModeCategory(asset, eModeCategory);
+  if (category) {
+    return category.ltv;
+  }
+  return reserveConfigCache.get(asset)?.ltv ?? 0;
+}
+
+// Get liquidation bonus for a collateral asset (E-Mode, on-chain config, then fallback)
+export function getLiquidationBonus(asset: string, eModeCategory: number = 0): number {
+  const category = getApplicableEModeCategory(asset, eModeCategory);
+  if (category && category.liquidationBonus > 0) {
+    return category.liquidationBonus;
+  }
+  
+  const reserveConfig = reserveConfigCache.get(asset);
+  if (reserveConfig && reserveConfig.liquidationBonus > 0) {
+    return reserveConfig.liquidationBonus;
+  }
+  return DEFAULT_LIQUIDATION_BONUS;
+}
+
+// Get liquidation protocol fee for a collateral asset (0 if config not loaded)
+export function getLiquidationProtocolFee(asset: string): number {
+  return reserveConfigCache.get(asset)?.liquidationProtocolFee ?? 0;
+}
+
+// Check if a reserve can take part in a liquidation (unknown reserves are allowed)
+export function isReserveLiquidatable(asset: string): boolean {
+  const reserveConfig = reserveConfigCache.get(asset);
+  if (!reserveConfig) {
+    return true;
+  }
+  return reserveConfig.isActive && !reserveConfig.isPaused;
+}
+
 // Update liquidation thresholds from Aave protocol data
 export function updateLiquidationThresholds(thresholds: Map<string, number>): void {
   for (const [asset, threshold] of thresholds) {
@@ -0,0 +1,97 @@
+// Aave fixed-point math (WadRayMath.sol, PercentageMath.sol and MathUtils.sol)
+// All helpers round half up, exactly like the Solidity libraries
+
+export const WAD = 10n ** 18n;
+export const HALF_WAD = WAD / 2n;
+export const RAY = 10n ** 27n;
+export const HALF_RAY = RAY / 2n;
+export const WAD_RAY_RATIO = 10n ** 9n;
+
+export const PERCENTAGE_FACTOR = 10000n;
+export const HALF_PERCENTAGE_FACTOR = 5000n;
+
+// Aave oracle base currency unit (USD with 8 decimals)
+export const BASE_CURRENCY_UNIT = 10n ** 8n;
+
+// Interest rates are annualized over a 365-day year
+export const SECONDS_PER_YEAR = 365n * 24n * 3600n;
+
+// Health factor returned by Aave when a user has no debt
+export const MAX_UINT256 = (1n << 256n) - 1n;
+
+export function wadMul(a: bigint, b: bigint): bigint {
+  return (a * b + HALF_WAD) / WAD;
+}
+
+export function wadDiv(a: bigint, b: bigint): bigint {
+  if (b === 0n) throw new Error('wadDiv: division by zero');
+  return (a * WAD + b / 2n) / b;
+}
+
+export function rayMul(a: bigint, b: bigint): bigint {
+  return (a * b + HALF_RAY) / RAY;
+}
+
+export function rayDiv(a: bigint, b: bigint): bigint {
+  if (b === 0n) throw new Error('rayDiv: division by zero');
+  return (a * RAY + b / 2n) / b;
+}
+
+export function rayToWad(a: bigint): bigint {
+  const remainder = a % WAD_RAY_RATIO;
+  const result = a / WAD_RAY_RATIO;
+  return remainder >= WAD_RAY_RATIO / 2n ? result + 1n : result;
+}
+
+export function wadToRay(a: bigint): bigint {
+  return a * WAD_RAY_RATIO;
+}
+
+export function percentMul(value: bigint, percentage: bigint): bigint {
+  return (value * percentage + HALF_PERCENTAGE_FACTOR) / PERCENTAGE_FACTOR;
+}
+
+export function percentDiv(value: bigint, percentage: bigint): bigint {
+  if (percentage === 0n) throw new Error('percentDiv: division by zero');
+  return (value * PERCENTAGE_FACTOR + percentage / 2n) / percentage;
+}
+
+// Liquidity index growth since lastUpdateTimestamp (ray), MathUtils.calculateLinearInterest
+export function calculateLinearInterest(rate: bigint, lastUpdateTimestamp: bigint, currentTimestamp: bigint): bigint {
+  const elapsed = currentTimestamp > lastUpdateTimestamp ? currentTimestamp - lastUpdateTimestamp : 0n;
+  return RAY + (rate * elapsed) / SECONDS_PER_YEAR;
+}
+
+// Variable borrow index growth since lastUpdateTimestamp (ray), MathUtils.calculateCompoundedInterest
+// Uses the same third-order binomial approximation as the Solidity library
+export function calculateCompoundedInterest(rate: bigint, lastUpdateTimestamp: bigint, currentTimestamp: bigint): bigint {
+  const exp = currentTimestamp > lastUpdateTimestamp ? currentTimestamp - lastUpdateTimestamp : 0n;
+  if (exp === 0n) return RAY;
+
+  const expMinusOne = exp - 1n;
+  const expMinusTwo = exp > 2n ? exp - 2n : 0n;
+
+  const basePowerTwo = rayMul(rate, rate) / (SECONDS_PER_YEAR * SECONDS_PER_YEAR);
+  const basePowerThree = rayMul(basePowerTwo, rate) / SECONDS_PER_YEAR;
+
+  const secondTerm = (exp * expMinusOne * basePowerTwo) / 2n;
+  const thirdTerm = (exp * expMinusOne * expMinusTwo * basePowerThree) / 6n;
+
+  return RAY + (rate * exp) / SECONDS_PER_YEAR + secondTerm + thirdTerm;
+}
+
+// Convert a fraction (e.g. 0.825) to Aave basis points (8250)
+export function toBps(fraction: number): bigint {
+  return BigInt(Math.round(fraction * Number(PERCENTAGE_FACTOR)));
+}
+
+// Convert a USD price to Aave base currency units (8 decimals)
+export function toBasePrice(priceUsd: number): bigint {
+  return BigInt(Math.round(priceUsd * Number(BASE_CURRENCY_UNIT)));
+}
+
+// Convert a wad health factor to a float (MAX_UINT256 -> Infinity)
+export function wadToHealthFactor(healthFactor: bigint): number {
+  if (healthFactor === MAX_UINT256) return Infinity;
+  return Number(healthFactor) / Number(WAD);
+}
@@ -0,0 +1,156 @@
+import { BASE_CURRENCY_UNIT, PERCENTAGE_FACTOR, percentDiv, percentMul, WAD } from './math';
+
+// Aave v3.3 LiquidationLogic constants
+export const DEFAULT_LIQUIDATION_CLOSE_FACTOR = 5000n; // 50%
+export const MAX_LIQUIDATION_CLOSE_FACTOR = PERCENTAGE_FACTOR; // 100%
+export const CLOSE_FACTOR_HF_THRESHOLD = (WAD * 95n) / 100n; // 0.95
+export const MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD = 2000n * BASE_CURRENCY_UNIT; // $2,000
+export const MIN_LEFTOVER_BASE = MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD / 2n; // $1,000
+
+// Inputs for sizing a liquidation of one debt/collateral pair
+export interface LiquidationSizingParams {
+  healthFactor: bigint; // Wad
+  totalDebtBase: bigint; // Borrower's total debt across reserves (base currency)
+  debtBalance: bigint;
+  debtDecimals: number;
+  debtPriceBase: bigint;
+  collateralBalance: bigint;
+  collateralDecimals: number;
+  collateralPriceBase: bigint;
+  liquidationBonus: bigint; // Basis points including 100%, e.g. 10500
+  liquidationProtocolFee?: bigint; // Basis points of the bonus taken by the protocol
+}
+
+// Legally maximal liquidation for a debt/collateral pair
+export interface LiquidationSize {
+  debtToCover: bigint;
+  collateralAmount: bigint; // Collateral received by the liquidator (bonus net of protocol fee)
+  protocolFeeAmount: bigint; // Collateral sent to the treasury out of the bonus
+  closeFactor: bigint; // Basis points applied (5000 or 10000)
+  maxLiquidatableDebt: bigint;
+}
+
+// Convert a debt amount into the collateral it buys at the bonus
+function debtToCollateral(params: LiquidationSizingParams, debtAmount: bigint): bigint {
+  const debtUnit = 10n ** BigInt(params.debtDecimals);
+  const collateralUnit = 10n ** BigInt(params.collateralDecimals);
+  const baseCollateral = (params.debtPriceBase * debtAmount * collateralUnit) /
+    (params.collateralPriceBase * debtUnit);
+  return percentMul(baseCollateral, params.liquidationBonus);
+}
+
+// Convert a collateral amount into the debt needed to seize it at the bonus
+function collateralToDebt(params: LiquidationSizingParams, collateralAmount: bigint): bigint {
+  const debtUnit = 10n ** BigInt(params.debtDecimals);
+  const collateralUnit = 10n ** BigInt(params.collateralDecimals);
+  const baseDebt = (params.collateralPriceBase * collateralAmount * debtUnit) /
+    (params.debtPriceBase * collateralUnit);
+  return percentDiv(baseDebt, params.liquidationBonus);
+}
+
+// Apply the collateral cap (_calculateAvailableCollateralToLiquidate)
+function capByCollateral(
+  params: LiquidationSizingParams,
+  debtToCover: bigint
+): { debtToCover: bigint; collateralAmount: bigint } {
+  const maxCollateral = debtToCollateral(params, debtToCover);
+  if (maxCollateral > params.collateralBalance) {
+    return {
+      debtToCover: collateralToDebt(params, params.collateralBalance),
+      collateralAmount: params.collateralBalance
+    };
+  }
+  return { debtToCover, collateralAmount: maxCollateral };
+}
+
+// Value of a token amount in base currency
+function toBase(amount: bigint, priceBase: bigint, decimals: number): bigint {
+  return (amount * priceBase) / 10n ** BigInt(decimals);
+}
+
+// Smallest token amount worth at least MIN_LEFTOVER_BASE
+function minLeftoverAmount(priceBase: bigint, decimals: number): bigint {
+  const unit = 10n ** BigInt(decimals);
+  return (MIN_LEFTOVER_BASE * unit + priceBase - 1n) / priceBase;
+}
+
+// Dust check: either all debt, all collateral, or enough of both left behind
+function leavesDust(
+  params: LiquidationSizingParams,
+  debtToCover: bigint,
+  collateralAmount: bigint
+): { debtDust: boolean; collateralDust: boolean } {
+  if (debtToCover >= params.debtBalance || collateralAmount >= params.collateralBalance) {
+    return { debtDust: false, collateralDust: false };
+  }
+  return {
+    debtDust: toBase(params.debtBalance - debtToCover, params.debtPriceBase, params.debtDecimals) < MIN_LEFTOVER_BASE,
+    collateralDust: toBase(params.collateralBalance - collateralAmount, params.collateralPriceBase, params.collateralDecimals) < MIN_LEFTOVER_BASE
+  };
+}
+
+// Pick the largest debtToCover Aave v3.3 accepts for this pair
+// Profit grows with the amount covered, so the legal maximum is also the most profitable
+export function sizeLiquidation(params: LiquidationSizingParams): LiquidationSize | null {
+  if (params.debtBalance === 0n || params.collateralBalance === 0n ||
+      params.debtPriceBase === 0n || params.collateralPriceBase === 0n) {
+    return null;
+  }
+
+  // Close factor: 100% below HF 0.95 or for small positions, otherwise 50% of total debt
+  const debtBase = toBase(params.debtBalance, params.debtPriceBase, params.debtDecimals);
+  const collateralBase = toBase(params.collateralBalance, params.collateralPriceBase, params.collateralDecimals);
+
+  let closeFactor = MAX_LIQUIDATION_CLOSE_FACTOR;
+  let maxLiquidatableDebt = params.debtBalance;
+
+  if (collateralBase >= MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD &&
+      debtBase >= MIN_BASE_MAX_CLOSE_FACTOR_THRESHOLD &&
+      params.healthFactor > CLOSE_FACTOR_HF_THRESHOLD) {
+    closeFactor = DEFAULT_LIQUIDATION_CLOSE_FACTOR;
+    const defaultLiquidatableBase = percentMul(params.totalDebtBase, DEFAULT_LIQUIDATION_CLOSE_FACTOR);
+    if (debtBase > defaultLiquidatableBase) {
+      maxLiquidatableDebt = (defaultLiquidatableBase * 10n ** BigInt(params.debtDecimals)) / params.debtPriceBase;
+    }
+  }
+
+  let size = capByCollateral(params, maxLiquidatableDebt);
+  let dust = leavesDust(params, size.debtToCover, size.collateralAmount);
+
+  // Shrink to leave MIN_LEFTOVER_BASE of debt behind
+  if (dust.debtDust) {
+    const debtToCover = params.debtBalance - minLeftoverAmount(params.debtPriceBase, params.debtDecimals);
+    if (debtToCover <= 0n) return null;
+    size = capByCollateral(params, debtToCover);
+    dust = leavesDust(params, size.debtToCover, size.collateralAmount);
+  }
+
+  // Shrink to leave MIN_LEFTOVER_BASE of collateral behind
+  if (dust.collateralDust) {
+    const maxCollateral = params.collateralBalance - minLeftoverAmount(params.collateralPriceBase, params.collateralDecimals);
+    if (maxCollateral <= 0n) return null;
+    // Round down by one unit so the bonus rounding cannot eat into the leftover
+    const debtToCover = collateralToDebt(params, maxCollateral) - 1n;
+    size = capByCollateral(params, debtToCover < size.debtToCover ? debtToCover : size.debtToCover);
+    dust = leavesDust(params, size.debtToCover, size.collateralAmount);
+  }
+
+  if (dust.debtDust || dust.collateralDust || size.debtToCover <= 0n) {
+    return null;
+  }
+
+  // Protocol fee is a share of the bonus part of the seized collateral
+  let protocolFeeAmount = 0n;
+  if (params.liquidationProtocolFee && params.liquidationProtocolFee > 0n) {
+    const bonusCollateral = size.collateralAmount - percentDiv(size.collateralAmount, params.liquidationBonus);
+    protocolFeeAmount = percentMul(bonusCollateral, params.liquidationProtocolFee);
+  }
+
+  return {
+    debtToCover: size.debtToCover,
+    collateralAmount: size.collateralAmount - protocolFeeAmount,
+    protocolFeeAmount,
+    closeFactor,
+    maxLiquidatableDebt
+  };
+}
@@ -0,0 +1,276 @@
+import { Borrower } from '../state/borrower';
+import { getTokenDecimalsSync } from '../tokens';
+import { getLiquidationThreshold, PriceData } from './calc';
+
+// Price of one asset at which a borrower's HF crosses a threshold (other prices fixed)
+export interface TriggerPrice {
+  asset: string;
+  threshold: number; // HF level, e.g. hfLiquidatable
+  price: number; // USD
+  direction: 'below' | 'above'; // HF drops under the threshold when price moves this way past `price`
+}
+
+// Nearest liquidation trigger of a borrower
+export interface LiquidationDistance {
+  asset: string;
+  triggerPrice: number;
+  distance: number; // Relative price move needed, e.g. 0.05 = 5%
+}
+
+// Float per-asset exposure: HF = (C + a·p) / (D + d·p) for asset price p
+interface AssetExposure {
+  weightedCollateral: number; // a: collateral units × liquidation threshold
+  debt: number; // d: debt units
+}
+
+// Collect per-asset exposures and the weighted collateral/debt value of all assets
+function getExposures(
+  borrower: Borrower,
+  prices: Map<string, PriceData>
+): { exposures: Map<string, AssetExposure>; collateralValue: number; debtValue: number } | null {
+  const exposures: Map<string, AssetExposure> = new Map();
+  let collateralValue = 0;
+  let debtValue = 0;
+
+  const exposure = (asset: string): AssetExposure => {
+    let entry = exposures.get(asset);
+    if (!entry) {
+      entry = { weightedCollateral: 0, debt: 0 };
+      exposures.set(asset, entry);
+    }
+    return entry;
+  };
+
+  for (const balance of borrower.collateralBalances) {
+    const price = prices.get(balance.asset);
+    if (!price) return null;
+    const units = Number(balance.amount) / 10 ** getTokenDecimalsSync(balance.asset);
+    const weighted = units * getLiquidationThreshold(balance.asset, borrower.eModeCategory);
+    exposure(balance.asset).weightedCollateral += weighted;
+    collateralValue += weighted * price.priceUsd;
+  }
+
+  for (const balance of borrower.debtBalances) {
+    const price = prices.get(balance.asset);
+    if (!price) return null;
+    const units = Number(balance.amount) / 10 ** getTokenDecimalsSync(balance.asset);
+    exposure(balance.asset).debt += units;
+    debtValue += units * price.priceUsd;
+  }
+
+  return { exposures, collateralValue, debtValue };
+}
+
+// Solve (C + a·p) / (D + d·p) = h for p on every asset the borrower holds
+// Borrowers with a missing price get no triggers until their HF is next recomputed
+export function computeTriggerPrices(
+  borrower: Borrower,
+  prices: Map<string, PriceData>,
+  thresholds: number[]
+): TriggerPrice[] {
+  const data = getExposures(borrower, prices);
+  if (!data || data.debtValue === 0) return [];
+
+  const triggers: TriggerPrice[] = [];
+  for (const [asset, exposure] of data.exposures) {
+    const price = prices.get(asset)!.priceUsd;
+    const otherCollateral = data.collateralValue - exposure.weightedCollateral * price;
+    const otherDebt = data.debtValue - exposure.debt * price;
+
+    for (const threshold of thresholds) {
+      const slope = exposure.weightedCollateral - threshold * exposure.debt;
+      if (slope === 0) continue;
+
+      const triggerPrice = (threshold * otherDebt - otherCollateral) / slope;
+      if (!Number.isFinite(triggerPrice) || triggerPrice <= 0) continue;
+
+      triggers.push({
+        asset,
+        threshold,
+        price: triggerPrice,
+        // Net collateral: HF falls with the price; net debt: HF falls as the price rises
+        direction: slope > 0 ? 'below' : 'above'
+      });
+    }
+  }
+
+  return triggers;
+}
+
+// Nearest hfLiquidatable trigger relative to current prices
+export function getLiquidationDistance(
+  triggers: TriggerPrice[],
+  prices: Map<string, PriceData>,
+  hfLiquidatable: number
+): LiquidationDistance | undefined {
+  let nearest: LiquidationDistance | undefined;
+
+  for (const trigger of triggers) {
+    if (trigger.threshold !== hfLiquidatable) continue;
+    const price = prices.get(trigger.asset)?.priceUsd;
+    if (!price) continue;
+
+    // Already past the trigger counts as zero distance
+    const move = trigger.direction === 'below'
+      ? (price - trigger.price) / price
+      : (trigger.price - price) / price;
+    const distance = Math.max(0, move);
+
+    if (!nearest || distance < nearest.distance) {
+      nearest = { asset: trigger.asset, triggerPrice: trigger.price, distance };
+    }
+  }
+
+  return nearest;
+}
+
+// Skip list levels: enough for millions of entries at p = 1/2
+const MAX_LEVEL = 24;
+
+interface TriggerNode {
+  price: number;
+  key: string; // Lowercased borrower address
+  next: Array<TriggerNode | null>;
+}
+
+// Per-asset trigger entries ordered by (price, key) in a skip list: O(log n) insert, remove and seek
+class TriggerList {
+  private head: TriggerNode = { price: -Infinity, key: '', next: new Array(MAX_LEVEL).fill(null) };
+  private level: number = 1;
+  size: number = 0;
+
+  private static before(node: TriggerNode, price: number, key: string): boolean {
+    return node.price < price || (node.price === price && node.key < key);
+  }
+
+  private static randomLevel(): number {
+    let level = 1;
+    while (level < MAX_LEVEL && Math.random() < 0.5) level++;
+    return level;
+  }
+
+  // Last node before (price, key) on every level
+  private findPredecessors(price: number, key: string): TriggerNode[] {
+    const update: TriggerNode[] = new Array(MAX_LEVEL).fill(this.head);
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && TriggerList.before(node.next[i]!, price, key)) node = node.next[i]!;
+      update[i] = node;
+    }
+    return update;
+  }
+
+  insert(price: number, key: string): void {
+    const update = this.findPredecessors(price, key);
+    const level = TriggerList.randomLevel();
+    if (level > this.level) this.level = level;
+
+    const node: TriggerNode = { price, key, next: new Array(level).fill(null) };
+    for (let i = 0; i < level; i++) {
+      node.next[i] = update[i].next[i];
+      update[i].next[i] = node;
+    }
+    this.size++;
+  }
+
+  remove(price: number, key: string): void {
+    const update = this.findPredecessors(price, key);
+    const target = update[0].next[0];
+    if (!target || target.price !== price || target.key !== key) return;
+
+    for (let i = 0; i < target.next.length; i++) {
+      if (update[i].next[i] === target) update[i].next[i] = target.next[i];
+    }
+    while (this.level > 1 && this.head.next[this.level - 1] === null) this.level--;
+    this.size--;
+  }
+
+  // Keys of entries with low <= price <= high
+  collectRange(low: number, high: number, keys: Set<string>): void {
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && node.next[i]!.price < low) node = node.next[i]!;
+    }
+    for (let next = node.next[0]; next && next.price <= high; next = next.next[0]) {
+      keys.add(next.key);
+    }
+  }
+}
+
+// Per-asset trigger prices sorted by price, so a tick only touches crossed borrowers
+class TriggerIndex {
+  private entries: Map<string, TriggerList> = new Map(); // Asset -> entries ordered by price
+  private borrowerTriggers: Map<string, TriggerPrice[]> = new Map(); // Borrower key -> indexed triggers
+  private lastPrices: Map<string, number> = new Map(); // Price each asset was last checked at
+
+  // Recompute and index a borrower's triggers; returns the nearest liquidation distance
+  updateBorrower(
+    borrower: Borrower,
+    prices: Map<string, PriceData>,
+    thresholds: number[],
+    hfLiquidatable: number
+  ): LiquidationDistance | undefined {
+    const key = borrower.address.toLowerCase();
+    this.removeBorrower(key);
+
+    const triggers = computeTriggerPrices(borrower, prices, thresholds);
+    for (const trigger of triggers) {
+      let list = this.entries.get(trigger.asset);
+      if (!list) {
+        list = new TriggerList();
+        this.entries.set(trigger.asset, list);
+      }
+      list.insert(trigger.price, key);
+    }
+    this.borrowerTriggers.set(key, triggers);
+
+    return getLiquidationDistance(triggers, prices, hfLiquidatable);
+  }
+
+  // Drop a borrower's triggers
+  removeBorrower(address: string): void {
+    const key = address.toLowerCase();
+    const triggers = this.borrowerTriggers.get(key);
+    if (!triggers) return;
+
+    for (const trigger of triggers) {
+      const list = this.entries.get(trigger.asset);
+      if (!list) continue;
+      list.remove(trigger.price, key);
+      if (list.size === 0) this.entries.delete(trigger.asset);
+    }
+    this.borrowerTriggers.delete(key);
+  }
+
+  // Triggers of a borrower (for reporting)
+  getTriggers(address: string): TriggerPrice[] {
+    return this.borrowerTriggers.get(address.toLowerCase()) ?? [];
+  }
+
+  // Borrowers with a trigger between the last checked price and the new one
+  // Returns null on the first price of an asset (caller must check all holders)
+  getCrossedBorrowers(asset: string, newPrice: number): string[] | null {
+    const lastPrice = this.lastPrices.get(asset);
+    this.lastPrices.set(asset, newPrice);
+    if (lastPrice === undefined) return null;
+
+    const list = this.entries.get(asset);
+    if (!list || lastPrice === newPrice) return [];
+
+    const low = Math.min(lastPrice, newPrice);
+    const high = Math.max(lastPrice, newPrice);
+    const crossed = new Set<string>();
+    list.collectRange(low, high, crossed);
+    return Array.from(crossed);
+  }
+
+  // Clear index (for testing)
+  clear(): void {
+    this.entries.clear();
+    this.borrowerTriggers.clear();
+    this.lastPrices.clear();
+  }
+}
+
+// Export singleton instance
+export const triggerIndex = new TriggerIndex();
@@ -2,17 +2,29 @@ import { ethers } from 'ethers';
 import { loadConfig, getConfig, watchConfig, validateConfig, onConfigChange } from './config/env';
 import logger from './logging/logger';
 import { borrowerRegistry } from './state/registry';
-import { BorrowerState } from './state/borrower';
+import { Borrower, BorrowerState, getBorrowerAssets } from './state/borrower';
 import { priceAggregator } from './prices';
+import { PriceAggregate } from './prices/aggregate';
 import { AaveEventListener } from './aave/events';
-import { calculateBorrowerHF } from './hf/calc';
+import { calculateBorrowerHF, PriceData } from './hf/calc';
+import { triggerIndex } from './hf/triggers';
 import { simulateLiquidation, getOracleHealthFactor, getTotalDebtUSD } from './execution/sim';
 import { buildLiquidationTx, signTransaction } from './execution/tx';
 import { broadcastTransaction, waitForTransaction } from './execution/broadcast';
 import { simulateFlashLiquidation, executeFlashLiquidation } from './execution/flash';
 import { sendTelegram } from './notify/telegram';
-import { getAaveAddresses, AAVE_POOL_ABI, ERC20_ABI } from './aave/addresses';
-import { getTokenAddress } from './tokens';
+import { getAaveAddresses, AAVE_POOL_ABI } from './aave/addresses';
+import { getTokenSymbol } from './tokens';
+import { reserveConfigCache } from './aave/reserves';
+import { reserveDiscovery } from './aave/discovery';
+import { oracleSources } from './aave/sources';
+import { derivedPriceSource } from './prices/derived';
+import { reserveIndexCache } from './aave/indices';
+import { fetchUserBalances, UserBalances } from './aave/hydration';
+import { eModeCache, refreshBorrowerEMode } from './aave/emode';
+import { SnapshotStore } from './state/snapshot';
+import { liquidationMetrics } from './state/queue';
+import { chainlinkWatcher, OracleUpdatePrediction } from './prices/chainlink';
 
 // Global state
 let provider: ethers.JsonRpcProvider;
@@ -21,6 +33,14 @@ let aaveEventListener: AaveEventListener;
 let blockLoopInterval: NodeJS.Timeout | null = null;
 let activeLiquidations = 0;
 let seedScanCompleted = false; // Track if seed scan has run
+let warmStarted = false; // Registry restored from snapshot (seed scan not needed)
+let snapshotStore: SnapshotStore;
+let lastSnapshotBlock = 0;
+const pendingOracleLiquidations: Map<string, Set<string>> = new Map(); // Asset -> borrowers prepared ahead of its oracle update
+const pendingOracleBorrowers: Map<string, { asset: string; expiresAt: number }> = new Map(); // Borrower -> pending update (ms)
+
+// Prepared transactions are kept this long past the predicted update time
+const ORACLE_UPDATE_GRACE_MS = 30000;
 
 // Startup seed scan: scan historical Borrow events once
 async function seedBorrowersOnce(): Promise<void> {
@@ -104,32 +124,42 @@ async function seedBorrowersOnce(): Promise<void> {
     let addedCount = 0;
     let filteredCount = 0;
     
-    for (const borrowerAddress of uniqueBorrowers) {
-      try {
-        // Add borrower temporarily to registry (not hydrated, from seed scan)
-        const borrower = borrowerRegistry.addBorrower(borrowerAddress, BorrowerState.SAFE, false);
-        
-        // Fetch on-chain balances
-        await updateBorrowerBalancesForSeed(borrowerAddress);
-        
-        // Compute totalDebtUSD using oracle prices
-        const totalDebtUSD = await getTotalDebtUSD(provider, borrower);
-        
-        if (totalDebtUSD < config.minDebtUsd) {
-          // Remove from registry
+    // Hydrate candidates concurrently so their reads are coalesced into multicall batches
+    const candidates = Array.from(uniqueBorrowers);
+    const concurrency = Math.max(1, config.seedHydrationConcurrency);
+    
+    for (let i = 0; i < candidates.length; i += concurrency) {
+      const wave = candidates.slice(i, i + concurrency);
+      
+      await Promise.all(wave.map(async (borrowerAddress) => {
+        try {
+          // Add borrower temporarily to registry (not hydrated, from seed scan)
+          const borrower = borrowerRegistry.addBorrower(borrowerAddress, BorrowerState.SAFE, false);
+          
+          // Fetch on-chain balances
+          await updateBorrowerBalancesForSeed(borrowerAddress);
+          
+          // Compute totalDebtUSD using oracle prices
+          const totalDebtUSD = await getTotalDebtUSD(provider, borrower);
+          
+          if (totalDebtUSD < config.minDebtUsd) {
+            // Remove from registry
+            borrowerRegistry.removeBorrower(borrowerAddress);
+            filteredCount++;
+          } else {
+            addedCount++;
+          }
+        } catch (error) {
+          logger.error('Error processing borrower in seed scan', {
+            borrower: borrowerAddress,
+            error
+          });
+          // Remove on error - but log as warning, don't throw
           borrowerRegistry.removeBorrower(borrowerAddress);
-          filteredCount++;
-        } else {
-          addedCount++;
         }
-      } catch (error) {
-        logger.error('Error processing borrower in seed scan', {
-          borrower: borrowerAddress,
-          error
-        });
-        // Remove on error - but log as warning, don't throw
-        borrowerRegistry.removeBorrower(borrowerAddress);
-      }
+      }));
+      
+      logger.debug(`[seed] hydrated ${Math.min(i + concurrency, candidates.length)}/${candidates.length} candidates`);
     }
     
     logger.info('=== Seed Scan Complete ===', {
@@ -164,64 +194,22 @@ async function updateBorrowerBalancesForSeed(userAddress: string): Promise<void>
     return;
   }
   
-  const config = getConfig();
-  const addresses = getAaveAddresses();
-  
-  const poolContract = new ethers.Contract(
-    addresses.pool,
-    AAVE_POOL_ABI,
-    provider
-  );
-  
-  // Fetch collateral balances
-  const collateralBalances = [];
-  for (const asset of config.targetCollateralAssets) {
-    try {
-      const assetAddress = getTokenAddress(asset);
-      const reserveData = await poolContract.getReserveData(assetAddress);
-      const aTokenAddress = reserveData.aTokenAddress;
-      
-      const aTokenContract = new ethers.Contract(aTokenAddress, ERC20_ABI, provider);
-      const balance = await aTokenContract.balanceOf(userAddress);
-      
-      if (balance > 0n) {
-        collateralBalances.push({
-          asset,
-          amount: balance,
-          valueUsd: 0
-        });
-      }
-    } catch (error) {
-      logger.error('Error fetching collateral balance in seed', { asset, error });
-    }
-  }
-  
-  // Fetch debt balances
-  const debtBalances = [];
-  for (const asset of config.targetDebtAssets) {
-    try {
-      const assetAddress = getTokenAddress(asset);
-      const reserveData = await poolContract.getReserveData(assetAddress);
-      const debtTokenAddress = reserveData.variableDebtTokenAddress;
-      
-      const debtTokenContract = new ethers.Contract(debtTokenAddress, ERC20_ABI, provider);
-      const balance = await debtTokenContract.balanceOf(userAddress);
-      
-      if (balance > 0n) {
-        debtBalances.push({
-          asset,
-          amount: balance,
-          valueUsd: 0
-        });
-      }
-    } catch (error) {
-      logger.error('Error fetching debt balance in seed', { asset, error });
-    }
+  // Fetch balances for the reserves enabled in the user's configuration bitmap
+  let balances: UserBalances;
+  try {
+    // Indices were loaded at startup and are refreshed periodically
+    balances = await fetchUserBalances(provider, userAddress, false);
+  } catch (error) {
+    logger.error('Error fetching user configuration in seed', { userAddress, error });
+    return;
   }
+  const { collateralBalances, debtBalances } = balances;
   
   // Update borrower
-  borrower.collateralBalances = collateralBalances;
-  borrower.debtBalances = debtBalances;
+  borrowerRegistry.updateBorrowerBalances(userAddress, collateralBalances, debtBalances);
+  
+  // Fetch E-Mode category (affects liquidation threshold and bonus)
+  await refreshBorrowerEMode(provider, borrower);
 }
 
 // Initialize bot
@@ -277,6 +265,27 @@ async function initialize(): Promise<void> {
     logger.info('Running without signer (dry run mode)');
   }
   
+  // Discover all Pool reserves and register them in the token catalog
+  const reserves = await reserveDiscovery.discover(provider);
+  if (reserves.length === 0) {
+    logger.warn('Reserve discovery returned no reserves, borrower balances cannot be hydrated');
+  }
+  
+  // Load per-reserve risk parameters (liquidation threshold, bonus, flags)
+  const startBlock = await provider.getBlockNumber();
+  await reserveConfigCache.refreshAll(provider, undefined, startBlock);
+  
+  // Load reserve indices and rates (used to accrue interest on scaled balances)
+  await reserveIndexCache.refresh(provider, reserveDiscovery.getSymbols(), startBlock);
+  
+  // Resolve each reserve's AaveOracle price source (proxies followed to their aggregators)
+  await oracleSources.discover(provider, reserveDiscovery.getSymbols());
+  oracleSources.markRefreshed(startBlock);
+  
+  // Load LST exchange rates used to derive their prices from the base asset
+  await derivedPriceSource.refresh(provider);
+  derivedPriceSource.markRefreshed(startBlock);
+  
   // Initialize price aggregator
   priceAggregator.initialize();
   
@@ -285,6 +294,26 @@ async function initialize(): Promise<void> {
     handlePriceUpdate(priceData.asset);
   });
   
+  // Alert when price sources disagree (liquidations touching the asset are blocked meanwhile)
+  priceAggregator.on('priceDivergence', (aggregate: PriceAggregate) => {
+    const sources = aggregate.sources.map(p => `${p.source}: $${p.priceUsd.toFixed(4)}`).join('\n');
+    const message = `⚠️ Price Sources Disagree
+Asset: ${aggregate.asset}
+Spread: ${aggregate.spreadBps.toFixed(1)} bps (max ${config.priceMaxDeviationBps})
+${sources}
+Execution blocked for borrowers holding ${aggregate.asset}`;
+    
+    sendTelegram(message).catch(error => {
+      logger.debug('Failed to send Telegram price divergence alert', { error });
+    });
+  });
+  
+  // Watch the Chainlink feeds behind AaveOracle to prepare liquidations before they update
+  await chainlinkWatcher.start(provider);
+  chainlinkWatcher.on('oracleUpdate', (asset: string) => {
+    handleOracleUpdate(asset);
+  });
+  
   // Initialize Aave event listener
   aaveEventListener = new AaveEventListener(provider);
   
@@ -293,7 +322,31 @@ async function initialize(): Promise<void> {
     handleBorrowerUpdate(address);
   });
   
-  await aaveEventListener.startListening();
+  // Refresh reserve config when governance changes risk parameters
+  aaveEventListener.on('reserveConfigChanged', (assetAddress: string) => {
+    handleReserveConfigChange(assetAddress).catch(error => {
+      logger.error('Error handling reserve config change', { assetAddress, error });
+    });
+  });
+  
+  // Re-resolve an asset's price source when governance points AaveOracle at a new one
+  aaveEventListener.on('oracleSourceChanged', (assetAddress: string) => {
+    handleOracleSourceChange(assetAddress).catch(error => {
+      logger.error('Error handling oracle source change', { assetAddress, error });
+    });
+  });
+  
+  // Reload E-Mode category parameters when governance changes them
+  aaveEventListener.on('eModeCategoryChanged', (categoryId: number) => {
+    handleEModeCategoryChange(categoryId).catch(error => {
+      logger.error('Error handling E-Mode category change', { categoryId, error });
+    });
+  });
+  
+  // Warm start: restore the registry and replay events since the snapshot
+  const resumeFromBlock = await restoreSnapshot(startBlock);
+  
+  await aaveEventListener.startListening(resumeFromBlock);
   
   // Watch .env for hot-reload
   watchConfig();
@@ -307,6 +360,51 @@ async function initialize(): Promise<void> {
   logger.info('=== Bot Initialized Successfully ===');
 }
 
+// Restore borrowers from the registry snapshot, returning the block to replay events from
+async function restoreSnapshot(currentBlock: number): Promise<number | undefined> {
+  const config = getConfig();
+  snapshotStore = new SnapshotStore(config.snapshotFile);
+  
+  const snapshot = snapshotStore.load();
+  if (!snapshot) {
+    logger.info('No registry snapshot found, starting cold');
+    return undefined;
+  }
+  
+  // Gaps beyond the seed window cannot be replayed cheaply, rebuild from the seed scan instead
+  if (currentBlock - snapshot.lastProcessedBlock > config.seedLookbackBlocks) {
+    logger.warn('Registry snapshot is older than the seed lookback, starting cold', {
+      snapshotBlock: snapshot.lastProcessedBlock,
+      currentBlock
+    });
+    return undefined;
+  }
+  
+  borrowerRegistry.restoreBorrowers(snapshot.borrowers);
+  
+  // Load E-Mode categories used by restored borrowers
+  const categories = new Set(snapshot.borrowers.map(b => b.eModeCategory));
+  await Promise.all(Array.from(categories).map(id => eModeCache.ensureCategory(provider, id)));
+  
+  warmStarted = true;
+  lastSnapshotBlock = currentBlock;
+  logger.info('Warm start from registry snapshot', {
+    borrowers: snapshot.borrowers.length,
+    snapshotBlock: snapshot.lastProcessedBlock,
+    blocksBehind: currentBlock - snapshot.lastProcessedBlock,
+    savedAt: new Date(snapshot.savedAt).toISOString()
+  });
+  
+  return snapshot.lastProcessedBlock;
+}
+
+// Save the registry with the block its events are processed up to
+async function saveSnapshot(): Promise<void> {
+  const lastProcessedBlock = aaveEventListener?.getLastProcessedBlock();
+  if (!snapshotStore || lastProcessedBlock === null || lastProcessedBlock === undefined) return;
+  await snapshotStore.save(borrowerRegistry.getAllBorrowers(), lastProcessedBlock);
+}
+
 // Start block loop
 function startBlockLoop(): void {
   const config = getConfig();
@@ -335,16 +433,71 @@ async function processBlock(): Promise<void> {
       baseFee: feeData.maxFeePerGas?.toString()
     });
     
-    // Get WATCH and CRITICAL borrowers only
-    const watchBorrowers = borrowerRegistry.getBorrowersByStates([
-      BorrowerState.WATCH,
-      BorrowerState.CRITICAL
-    ]);
+    // Periodic reserve config refresh (catches changes missed by event listeners)
+    if (reserveConfigCache.isRefreshDue(blockNumber, getConfig().reserveConfigRefreshBlocks)) {
+      reserveConfigCache.markRefreshed(blockNumber);
+      reserveConfigCache.refreshAll(provider, undefined, blockNumber).catch(error => {
+        logger.error('Error refreshing reserve configurations', { error });
+      });
+    }
     
-    // Recompute HF for WATCH and CRITICAL borrowers using cached prices only
+    // Periodic oracle source re-resolve (catches AssetSourceUpdated events and aggregator swaps missed by listeners)
+    if (oracleSources.isRefreshDue(blockNumber, getConfig().reserveConfigRefreshBlocks)) {
+      oracleSources.markRefreshed(blockNumber);
+      oracleSources.refresh(provider, reserveDiscovery.getSymbols())
+        .then(changedAssets => applyOracleSourceChanges(changedAssets))
+        .catch(error => {
+          logger.error('Error refreshing oracle sources', { error });
+        });
+    }
+    
+    // Periodic reserve index refresh, then re-check SAFE holders of reserves whose indices or rates
+    // moved (queued borrowers already accrue interest every block)
+    if (reserveIndexCache.isRefreshDue(blockNumber, getConfig().reserveIndexRefreshBlocks)) {
+      reserveIndexCache.markRefreshed(blockNumber);
+      reserveIndexCache.refresh(provider, reserveDiscovery.getSymbols(), blockNumber)
+        .then(changedAssets => {
+          const affected = new Set<string>();
+          for (const asset of changedAssets) {
+            for (const borrower of borrowerRegistry.getBorrowersByAsset(asset)) {
+              if (borrower.state === BorrowerState.SAFE) affected.add(borrower.address);
+            }
+          }
+          for (const address of affected) {
+            handleBorrowerUpdate(address);
+          }
+        })
+        .catch(error => {
+          logger.error('Error refreshing reserve indices', { error });
+        });
+    }
+    
+    // Periodic LST exchange rate refresh (rates move slowly, prices follow base asset ticks)
+    if (derivedPriceSource.isRefreshDue(blockNumber, getConfig().derivedRatioRefreshBlocks)) {
+      derivedPriceSource.markRefreshed(blockNumber);
+      derivedPriceSource.refresh(provider).catch(error => {
+        logger.error('Error refreshing LST exchange rates', { error });
+      });
+    }
+    
+    // Periodic registry snapshot for warm restarts
+    const snapshotInterval = getConfig().snapshotIntervalBlocks;
+    if (snapshotInterval > 0 && blockNumber - lastSnapshotBlock >= snapshotInterval) {
+      lastSnapshotBlock = blockNumber;
+      saveSnapshot().catch(error => {
+        logger.error('Error saving registry snapshot', { error });
+      });
+    }
+    
+    // Near-liquidation borrowers, lowest HF and highest expected profit first, up to the per-block budget
+    // Borrowers past the budget are still re-checked by price triggers
+    const queuedBorrowers = borrowerRegistry.getBorrowersByPriority(getConfig().maxQueueChecksPerBlock);
+    liquidationMetrics.recordQueueDepth(borrowerRegistry.getQueueDepth());
+    
+    // Recompute HF for queued borrowers using cached prices only
     const prices = priceAggregator.getAllPrices();
     
-    for (const borrower of watchBorrowers) {
+    for (const borrower of queuedBorrowers) {
       if (prices.size === 0) continue;
       
       // Skip HF recomputation if borrower is not hydrated yet
@@ -355,16 +508,21 @@ async function processBlock(): Promise<void> {
         continue;
       }
       
-      const newHF = calculateBorrowerHF(borrower, prices);
+      // Accrue interest on scaled balances (no RPC)
+      reserveIndexCache.accrueBorrower(borrower);
+      const newHF = calculateBorrowerHF(borrower, prices, undefined, getConfig().conservativePricing);
       
       // Update HF and potentially transition state
       borrowerRegistry.updateBorrowerHF(borrower.address, newHF);
+      refreshTriggers(borrower, prices);
       
       // Note: prepareLiquidation is NO LONGER called here (moved to event-driven handlers)
       
-      // If transitioned to LIQUIDATABLE, execute
+      // Dispatch without awaiting so a slow borrower does not hold up the next one
       if (borrower.state === BorrowerState.LIQUIDATABLE) {
-        await executeLiquidation(borrower.address);
+        executeLiquidation(borrower.address).catch(error => {
+          logger.error('Error executing liquidation from block loop', { borrower: borrower.address, error });
+        });
       }
     }
     
@@ -372,13 +530,27 @@ async function processBlock(): Promise<void> {
     if (blockNumber % 100 === 0) {
       const stats = borrowerRegistry.getStats();
       const priceStatus = priceAggregator.getStatus();
-      const stalenessInfo = priceAggregator.getStalenessInfo();
+      const feedStatus = priceAggregator.getFeedStatus(getConfig().priceStaleMs);
+      
+      // Borrowers closest to liquidation (relative price move on one asset)
+      const nearestLiquidations = borrowerRegistry.getAllBorrowers()
+        .filter(b => b.liquidationDistance !== undefined)
+        .sort((a, b) => a.liquidationDistance!.distance - b.liquidationDistance!.distance)
+        .slice(0, 5)
+        .map(b => ({
+          borrower: b.address,
+          asset: b.liquidationDistance!.asset,
+          triggerPrice: b.liquidationDistance!.triggerPrice,
+          distancePct: (b.liquidationDistance!.distance * 100).toFixed(2)
+        }));
       
       logger.info('Bot statistics', {
         blockNumber,
         borrowers: stats,
+        nearestLiquidations,
+        liquidationQueue: liquidationMetrics.getSummary(),
         priceFeeds: priceStatus,
-        priceStaleness: stalenessInfo,
+        priceStaleness: feedStatus,
         activeLiquidations
       });
     }
@@ -388,19 +560,35 @@ async function processBlock(): Promise<void> {
 }
 
 // Handle price update (event-driven)
-function handlePriceUpdate(asset: string): void {
+// Only borrowers whose trigger price was crossed are recomputed, plus CRITICAL/LIQUIDATABLE
+// holders whose prepared transaction depends on the exact price
+function handlePriceUpdate(asset: string, checkAllHolders: boolean = false): void {
   const prices = priceAggregator.getAllPrices();
+  const price = prices.get(asset);
   
-  // Find all borrowers affected by this asset
-  const allBorrowers = borrowerRegistry.getAllBorrowers();
+  const crossed = price && !checkAllHolders ? triggerIndex.getCrossedBorrowers(asset, price.priceUsd) : null;
+  let affectedBorrowers: Borrower[];
   
-  for (const borrower of allBorrowers) {
-    // Check if borrower has this asset
-    const hasAsset = borrower.collateralBalances.some(b => b.asset === asset) ||
-                    borrower.debtBalances.some(b => b.asset === asset);
-    
-    if (!hasAsset) continue;
-    
+  if (crossed === null) {
+    // First price for this asset (or forced): check every holder (reverse index lookup)
+    affectedBorrowers = borrowerRegistry.getBorrowersByAsset(asset);
+  } else {
+    const selected = new Map<string, Borrower>();
+    for (const address of crossed) {
+      const borrower = borrowerRegistry.getBorrower(address);
+      if (borrower) {
+        selected.set(address, borrower);
+      } else {
+        triggerIndex.removeBorrower(address);
+      }
+    }
+    for (const borrower of borrowerRegistry.getCriticalBorrowersByAsset(asset)) {
+      selected.set(borrower.address.toLowerCase(), borrower);
+    }
+    affectedBorrowers = Array.from(selected.values());
+  }
+  
+  for (const borrower of affectedBorrowers) {
     // Skip HF recomputation if borrower is not hydrated yet
     if (!borrower.hydrated) {
       logger.debug('Skipping HF recomputation for non-hydrated borrower on price update', {
@@ -410,17 +598,20 @@ function handlePriceUpdate(asset: string): void {
       continue;
     }
     
-    // Recompute HF
-    const newHF = calculateBorrowerHF(borrower, prices);
+    // Recompute HF (with interest accrued since last hydration)
+    reserveIndexCache.accrueBorrower(borrower);
+    const newHF = calculateBorrowerHF(borrower, prices, undefined, getConfig().conservativePricing);
     
     // Invalidate cached tx on price change for CRITICAL/LIQUIDATABLE borrowers
+    // (transactions prepared for a predicted oracle update are kept until it lands)
     if ((borrower.state === BorrowerState.CRITICAL || borrower.state === BorrowerState.LIQUIDATABLE) && 
-        borrower.cachedTx) {
+        borrower.cachedTx && !isPendingOracleLiquidation(borrower.address)) {
       borrowerRegistry.invalidateCachedTx(borrower.address, `Price change for ${asset}`);
     }
     
     // Update HF and potentially transition state
     borrowerRegistry.updateBorrowerHF(borrower.address, newHF);
+    refreshTriggers(borrower, prices);
     
     // Handle state-specific actions
     if (borrower.state === BorrowerState.CRITICAL && !borrower.cachedTx) {
@@ -429,6 +620,249 @@ function handlePriceUpdate(asset: string): void {
       });
     }
   }
+  
+  if (price && !checkAllHolders) {
+    checkOracleUpdatePrediction(asset, price.priceUsd);
+  }
+}
+
+// Predict whether the asset's Chainlink feed is about to update and prepare the
+// liquidations that become possible once it does
+function checkOracleUpdatePrediction(asset: string, offchainPrice: number): void {
+  const prediction = chainlinkWatcher.predictUpdate(asset, offchainPrice);
+  if (!prediction) return;
+  
+  const config = getConfig();
+  const currentPrices = getOracleSidePrices();
+  const predictedPrices = new Map(currentPrices);
+  predictedPrices.set(asset, { asset, priceUsd: prediction.predictedPrice, timestamp: Date.now(), source: 'oracle' });
+  
+  // Borrowers that are not liquidatable on-chain yet but will be after the update
+  const liquidatable: Borrower[] = [];
+  for (const borrower of borrowerRegistry.getBorrowersByAsset(asset)) {
+    if (!borrower.hydrated) continue;
+    reserveIndexCache.accrueBorrower(borrower);
+    if (calculateBorrowerHF(borrower, currentPrices) <= config.hfLiquidatable) continue;
+    if (calculateBorrowerHF(borrower, predictedPrices) <= config.hfLiquidatable) {
+      liquidatable.push(borrower);
+    }
+  }
+  
+  logger.info('Oracle update predicted', {
+    asset,
+    reason: prediction.reason,
+    currentAnswer: prediction.currentAnswer,
+    predictedPrice: prediction.predictedPrice,
+    deviationBps: prediction.deviationBps.toFixed(1),
+    expectedAt: prediction.expectedAt,
+    liquidatableBorrowers: liquidatable.length
+  });
+  
+  for (const borrower of liquidatable) {
+    prepareAheadOfOracleUpdate(borrower.address, prediction, predictedPrices).catch(error => {
+      logger.error('Error preparing liquidation ahead of oracle update', { error });
+    });
+  }
+}
+
+// Current on-chain oracle prices, with off-chain prices for assets without a watched feed
+function getOracleSidePrices(): Map<string, PriceData> {
+  const prices = priceAggregator.getAllPrices();
+  for (const [asset, priceUsd] of chainlinkWatcher.getOraclePrices()) {
+    prices.set(asset, { asset, priceUsd, timestamp: Date.now(), source: 'oracle' });
+  }
+  return prices;
+}
+
+// Whether a borrower has a transaction prepared for a predicted oracle update that is still expected
+function isPendingOracleLiquidation(address: string, now: number = Date.now()): boolean {
+  const key = address.toLowerCase();
+  const pending = pendingOracleBorrowers.get(key);
+  if (!pending) return false;
+  if (now > pending.expiresAt) {
+    removePendingOracleLiquidation(key);
+    return false;
+  }
+  return true;
+}
+
+// Keep a prepared transaction until the predicted update lands (or its grace period ends)
+function addPendingOracleLiquidation(address: string, prediction: OracleUpdatePrediction): void {
+  const key = address.toLowerCase();
+  removePendingOracleLiquidation(key);
+  
+  let borrowers = pendingOracleLiquidations.get(prediction.asset);
+  if (!borrowers) {
+    borrowers = new Set();
+    pendingOracleLiquidations.set(prediction.asset, borrowers);
+  }
+  borrowers.add(key);
+  pendingOracleBorrowers.set(key, {
+    asset: prediction.asset,
+    expiresAt: prediction.expectedAt * 1000 + ORACLE_UPDATE_GRACE_MS
+  });
+}
+
+function removePendingOracleLiquidation(key: string): void {
+  const pending = pendingOracleBorrowers.get(key);
+  if (!pending) return;
+  pendingOracleBorrowers.delete(key);
+  
+  const borrowers = pendingOracleLiquidations.get(pending.asset);
+  if (!borrowers) return;
+  borrowers.delete(key);
+  if (borrowers.size === 0) pendingOracleLiquidations.delete(pending.asset);
+}
+
+// Simulate and build the liquidation at the predicted oracle price so it can be sent
+// as soon as the update lands
+async function prepareAheadOfOracleUpdate(
+  borrowerAddress: string,
+  prediction: OracleUpdatePrediction,
+  predictedPrices: Map<string, PriceData>
+): Promise<void> {
+  const config = getConfig();
+  const borrower = borrowerRegistry.getBorrower(borrowerAddress);
+  if (!borrower) return;
+  
+  if (!borrowerRegistry.tryAcquireLock(borrowerAddress)) {
+    logger.debug('Borrower already being processed, skipping preparation ahead of oracle update', {
+      borrower: borrowerAddress
+    });
+    return;
+  }
+  
+  try {
+    // The flash simulation runs the full flow on-chain and can only be done after the update
+    if (config.flashLiquidatorAddress) return;
+    
+    const simResult = await simulateLiquidation(provider, borrower, signer?.address || '', {
+      prices: predictedPrices,
+      expectedOracleUpdate: true
+    });
+    
+    if (!simResult || !simResult.success) {
+      logger.debug('Liquidation not viable at predicted oracle price', {
+        borrower: borrowerAddress,
+        asset: prediction.asset,
+        reason: simResult?.error
+      });
+      return;
+    }
+    
+    if (signer) {
+      const cachedTx = await buildLiquidationTx(provider, signer, borrowerAddress, simResult);
+      if (cachedTx) {
+        const currentBlock = await provider.getBlockNumber();
+        borrowerRegistry.setCachedTx(borrowerAddress, cachedTx, currentBlock);
+        addPendingOracleLiquidation(borrowerAddress, prediction);
+      }
+    }
+    
+    logger.info('Liquidation prepared ahead of oracle update', {
+      borrower: borrowerAddress,
+      asset: prediction.asset,
+      predictedPrice: prediction.predictedPrice,
+      expectedProfit: simResult.profitUsd.toFixed(2),
+      prepared: !!borrower.cachedTx
+    });
+  } catch (error) {
+    logger.error('Error preparing liquidation ahead of oracle update', {
+      borrower: borrowerAddress,
+      error
+    });
+  } finally {
+    borrowerRegistry.releaseLock(borrowerAddress);
+  }
+}
+
+// Chainlink feed updated on-chain: dispatch the liquidations prepared for it
+function handleOracleUpdate(asset: string): void {
+  const now = Date.now();
+  const pending = Array.from(pendingOracleLiquidations.get(asset) ?? [])
+    .filter(address => isPendingOracleLiquidation(address, now));
+  for (const address of pending) {
+    removePendingOracleLiquidation(address);
+  }
+  if (pending.length === 0) return;
+  
+  logger.info('Oracle updated, dispatching prepared liquidations', {
+    asset,
+    borrowers: pending.length
+  });
+  
+  for (const address of pending) {
+    const borrower = borrowerRegistry.getBorrower(address);
+    if (!borrower || borrower.state !== BorrowerState.LIQUIDATABLE) continue;
+    executeLiquidation(borrower.address).catch(error => {
+      logger.error('Error executing liquidation after oracle update', { error });
+    });
+  }
+}
+
+// Recompute a borrower's trigger prices and distance to liquidation
+function refreshTriggers(borrower: Borrower, prices: Map<string, PriceData>): void {
+  const config = getConfig();
+  borrower.liquidationDistance = triggerIndex.updateBorrower(
+    borrower,
+    prices,
+    [config.hfWatch, config.hfCritical, config.hfLiquidatable],
+    config.hfLiquidatable
+  );
+}
+
+// Handle reserve configuration change (governance update)
+async function handleReserveConfigChange(assetAddress: string): Promise<void> {
+  const asset = getTokenSymbol(assetAddress);
+  if (!asset) {
+    logger.debug('Reserve config change for asset not in catalog', { assetAddress });
+    return;
+  }
+  
+  const blockNumber = await provider.getBlockNumber();
+  await reserveConfigCache.refreshReserve(provider, asset, blockNumber);
+  
+  // Recompute HF for borrowers holding this asset with the new parameters
+  handlePriceUpdate(asset, true);
+}
+
+// Handle AaveOracle source change (governance update)
+async function handleOracleSourceChange(assetAddress: string): Promise<void> {
+  const asset = getTokenSymbol(assetAddress);
+  if (!asset) {
+    logger.debug('Oracle source change for asset not in catalog', { assetAddress });
+    return;
+  }
+  
+  const source = await oracleSources.refreshAsset(provider, asset);
+  if (!source) return;
+  await applyOracleSourceChanges([asset]);
+}
+
+// Move Chainlink subscriptions and CAPO rates to changed oracle sources, then re-check holders
+async function applyOracleSourceChanges(assets: string[]): Promise<void> {
+  if (assets.length === 0) return;
+  
+  for (const asset of assets) {
+    await chainlinkWatcher.refreshAsset(provider, asset);
+  }
+  await derivedPriceSource.refresh(provider);
+  
+  for (const asset of assets) {
+    handlePriceUpdate(asset, true);
+  }
+}
+
+// Handle E-Mode category change (governance update)
+async function handleEModeCategoryChange(categoryId: number): Promise<void> {
+  await eModeCache.refreshCategory(provider, categoryId);
+  
+  // Recompute HF for borrowers in this category
+  for (const borrower of borrowerRegistry.getAllBorrowers()) {
+    if (borrower.eModeCategory === categoryId) {
+      handleBorrowerUpdate(borrower.address);
+    }
+  }
 }
 
 // Handle borrower update from Aave events
@@ -447,11 +881,13 @@ function handleBorrowerUpdate(address: string): void {
     return;
   }
   
-  // Recompute HF
-  const newHF = calculateBorrowerHF(borrower, prices);
+  // Recompute HF (with interest accrued since last hydration)
+  reserveIndexCache.accrueBorrower(borrower);
+  const newHF = calculateBorrowerHF(borrower, prices, undefined, getConfig().conservativePricing);
   
   // Update HF and potentially transition state
   borrowerRegistry.updateBorrowerHF(borrower.address, newHF);
+  refreshTriggers(borrower, prices);
   
   // Handle state-specific actions
   if (borrower.state === BorrowerState.CRITICAL && !borrower.cachedTx) {
@@ -491,12 +927,13 @@ async function prepareLiquidation(borrowerAddress: string): Promise<void> {
   }
   
   try {
-    // Check price staleness before preparation
-    if (priceAggregator.isPriceStale(config.priceStaleMs)) {
-      const stalenessInfo = priceAggregator.getStalenessInfo();
+    // Check price staleness of the borrower's assets before preparation
+    const staleAssets = priceAggregator.getStaleAssets(getBorrowerAssets(borrower), config.priceStaleMs);
+    if (staleAssets.length > 0) {
       logger.warn('Price data is stale, aborting preparation', {
         borrower: borrowerAddress,
-        stalenessInfo
+        staleAssets,
+        ages: staleAssets.map(asset => ({ asset, ageMs: priceAggregator.getAssetAge(asset) }))
       });
       return;
     }
@@ -543,7 +980,7 @@ async function prepareLiquidation(borrowerAddress: string): Promise<void> {
       const currentBlock = await provider.getBlockNumber();
       
       // Cache the flash simulation result for execution
-      borrower.cachedTx = {
+      borrowerRegistry.setCachedTx(borrowerAddress, {
         to: config.flashLiquidatorAddress,
         data: '', // Will be built during execution
         value: 0n,
@@ -552,13 +989,9 @@ async function prepareLiquidation(borrowerAddress: string): Promise<void> {
         maxPriorityFeePerGas: 0n,
         expectedProfitUsd: flashSimResult.expectedProfit,
         estimatedGasUsd: flashSimResult.gasUsd,
+        profitBreakdown: flashSimResult.breakdown,
         preparedAt: Date.now()
-      };
-      
-      // Store flash result and block number for later use
-      borrower.flashResult = flashSimResult;
-      borrower.preparedBlockNumber = currentBlock;
-      borrower.lastPreparedBlock = currentBlock;
+      }, currentBlock, flashSimResult);
       
     } else {
       // Use traditional direct liquidation
@@ -591,9 +1024,7 @@ async function prepareLiquidation(borrowerAddress: string): Promise<void> {
           // Get current block number for TTL tracking
           const currentBlock = await provider.getBlockNumber();
           
-          borrower.cachedTx = cachedTx;
-          borrower.preparedBlockNumber = currentBlock;
-          borrower.lastPreparedBlock = currentBlock;
+          borrowerRegistry.setCachedTx(borrowerAddress, cachedTx, currentBlock);
           
           logger.info('Liquidation transaction prepared', {
             borrower: borrowerAddress,
@@ -650,12 +1081,13 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
     return;
   }
   
+  let slotReserved = false;
   try {
     // Track execution attempt
     borrower.lastExecutionAttemptAt = Date.now();
     
-    // Check price feed policy (fail-closed: Binance OR Pyth must be live)
-    const feedPolicy = priceAggregator.canExecuteLiquidation(config.priceStaleMs);
+    // Check price feed policy (fail-closed: every asset of the borrower must have a live price)
+    const feedPolicy = priceAggregator.canExecuteLiquidation(config.priceStaleMs, getBorrowerAssets(borrower));
     if (!feedPolicy.allowed) {
       const feedStatus = priceAggregator.getFeedStatus(config.priceStaleMs);
       logger.warn('Price feed policy check failed, aborting execution', {
@@ -666,13 +1098,14 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       return;
     }
     
-    // Check price staleness before execution (additional check)
-    if (priceAggregator.isPriceStale(config.priceStaleMs)) {
-      const stalenessInfo = priceAggregator.getStalenessInfo();
-      logger.warn('Price data is stale, aborting execution', {
+    // Block execution while price sources disagree on any of the borrower's assets
+    const trustPolicy = priceAggregator.checkAssetsTrusted(getBorrowerAssets(borrower));
+    if (!trustPolicy.allowed) {
+      logger.warn('Untrusted price for borrower asset, aborting execution', {
         borrower: borrowerAddress,
-        stalenessInfo
+        reason: trustPolicy.reason
       });
+      borrowerRegistry.updateSkipReason(borrowerAddress, 'price_divergence');
       return;
     }
     
@@ -684,15 +1117,6 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       return;
     }
     
-    // Check concurrent tx limit
-    if (activeLiquidations >= config.maxConcurrentTx) {
-      logger.debug('Max concurrent liquidations reached', {
-        active: activeLiquidations,
-        max: config.maxConcurrentTx
-      });
-      return;
-    }
-    
     // Check if cached tx exists
     if (!borrower.cachedTx) {
       logger.warn('No cached transaction for liquidatable borrower', {
@@ -744,19 +1168,25 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
     }
     
     // Verify profitability and gas (hard profit floor)
+    // expectedProfitUsd is already net of protocol fee, flash loan fee and swap loss
     const expectedProfitUsd = borrower.cachedTx.expectedProfitUsd;
     const estimatedGasUsd = borrower.cachedTx.estimatedGasUsd;
     const netProfitUsd = expectedProfitUsd - estimatedGasUsd;
+    const breakdown = borrower.cachedTx.profitBreakdown;
     
     logger.info('Profit check before execution', {
       borrower: borrowerAddress,
+      grossBonusUsd: breakdown?.grossBonusUsd.toFixed(2),
+      protocolFeeUsd: breakdown?.protocolFeeUsd.toFixed(2),
+      flashFeeUsd: breakdown?.flashFeeUsd.toFixed(2),
+      swapLossUsd: breakdown?.swapLossUsd.toFixed(2),
       expectedProfitUsd: expectedProfitUsd.toFixed(2),
       estimatedGasUsd: estimatedGasUsd.toFixed(2),
       netProfitUsd: netProfitUsd.toFixed(2),
       minProfitUsd: config.minProfitUsd
     });
     
-    // Enforce hard profit floor (net profit after gas must exceed minimum)
+    // Enforce hard profit floor (net profit after all costs must exceed minimum)
     if (netProfitUsd < config.minProfitUsd) {
       logger.warn('Net profit below minimum, aborting execution', {
         borrower: borrowerAddress,
@@ -764,7 +1194,7 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
         gasUsd: estimatedGasUsd.toFixed(2),
         netProfit: netProfitUsd.toFixed(2),
         minProfit: config.minProfitUsd,
-        reason: 'Net profit (after gas) < MIN_PROFIT_USD'
+        reason: 'Net profit (after fees, swap loss and gas) < MIN_PROFIT_USD'
       });
       borrowerRegistry.updateSkipReason(borrowerAddress, 'profit_floor');
       return;
@@ -790,8 +1220,12 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       return;
     }
     
+    // Time from the LIQUIDATABLE transition to broadcast (or to the dry-run decision)
+    const liquidatableSince = borrower.stateHistory[borrower.stateHistory.length - 1].timestamp;
+    
     // Check if execution is enabled
     if (!config.enableExecution || config.dryRun) {
+      liquidationMetrics.recordDryRun(borrowerAddress, liquidatableSince);
       logger.info('DRY RUN: Would execute liquidation', {
         borrower: borrowerAddress,
         expectedProfit: borrower.cachedTx.expectedProfitUsd.toFixed(2),
@@ -805,6 +1239,19 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       return;
     }
     
+    // Check concurrent tx limit
+    if (activeLiquidations >= config.maxConcurrentTx) {
+      logger.debug('Max concurrent liquidations reached', {
+        active: activeLiquidations,
+        max: config.maxConcurrentTx
+      });
+      return;
+    }
+    
+    // Reserve the slot right before broadcast, with no await since the check: executions run concurrently
+    activeLiquidations++;
+    slotReserved = true;
+    
     logger.info('Executing liquidation', {
       borrower: borrowerAddress,
       expectedProfit: borrower.cachedTx.expectedProfitUsd.toFixed(2),
@@ -813,8 +1260,6 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       oracleHF: oracleHF.toFixed(4)
     });
     
-    activeLiquidations++;
-    
     // Check if using flash loan based execution
     const useFlashLoan = !!config.flashLiquidatorAddress;
     const flashResult = borrower.flashResult;
@@ -835,6 +1280,7 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       const tx = await executeFlashLiquidation(provider, signer, borrowerAddress, flashResult);
       
       if (tx) {
+        liquidationMetrics.recordExecution(borrowerAddress, liquidatableSince);
         logger.info('Flash liquidation transaction sent', {
           borrower: borrowerAddress,
           txHash: tx.hash
@@ -865,6 +1311,7 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       const tx = await broadcastTransaction(provider, signedTx);
       
       if (tx) {
+        liquidationMetrics.recordExecution(borrowerAddress, liquidatableSince);
         logger.info('Liquidation transaction sent', {
           borrower: borrowerAddress,
           txHash: tx.hash
@@ -893,7 +1340,9 @@ async function executeLiquidation(borrowerAddress: string): Promise<void> {
       error
     });
   } finally {
-    activeLiquidations--;
+    if (slotReserved) {
+      activeLiquidations--;
+    }
     // Always release lock
     borrowerRegistry.releaseLock(borrowerAddress);
   }
@@ -915,6 +1364,14 @@ async function shutdown(): Promise<void> {
   
   // Disconnect price feeds
   priceAggregator.disconnect();
+  chainlinkWatcher.stop();
+  
+  // Persist registry for the next warm start
+  try {
+    await saveSnapshot();
+  } catch (error) {
+    logger.error('Error saving registry snapshot on shutdown', { error });
+  }
   
   logger.info('Bot shut down successfully');
   process.exit(0);
@@ -930,8 +1387,10 @@ async function main(): Promise<void> {
     // Initialize
     await initialize();
     
-    // Run seed scan once (before block loop starts)
-    await seedBorrowersOnce();
+    // Run seed scan once (before block loop starts), unless restored from a snapshot
+    if (!warmStarted) {
+      await seedBorrowersOnce();
+    }
     
     // Start block loop
     startBlockLoop();
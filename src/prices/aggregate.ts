@@ -0,0 +1,51 @@
+import { PriceData } from '../hf/calc';
+
+// Per-asset price combined from the latest tick of every live source
+export interface PriceAggregate {
+  asset: string;
+  priceUsd: number; // Weighted median of source prices (plain median with equal weights)
+  spreadBps: number; // (max - min) / median; 0 with a single source
+  sources: PriceData[]; // Contributing source prices
+  trusted: boolean; // Spread within the configured maximum
+}
+
+// Weighted median of a non-empty list: the first value where cumulative weight passes half the total
+// (mean of it and the next when it lands exactly on half, so equal weights give the plain median)
+function weightedMedian(entries: Array<{ value: number; weight: number }>): number {
+  const sorted = [...entries].sort((a, b) => a.value - b.value);
+  const half = sorted.reduce((sum, entry) => sum + entry.weight, 0) / 2;
+
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (Math.abs(cumulative - half) < 1e-9 && i + 1 < sorted.length) {
+      return (sorted[i].value + sorted[i + 1].value) / 2;
+    }
+    if (cumulative > half) return sorted[i].value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+// Combine the latest prices of one asset from different sources
+// weights: per-source weight (PRICE_SOURCE_WEIGHTS, default 1)
+// Returns null when no source has a usable price
+export function aggregateSourcePrices(
+  prices: PriceData[],
+  maxDeviationBps: number,
+  weights: Map<string, number> = new Map()
+): PriceAggregate | null {
+  const usable = prices.filter(price => price.priceUsd > 0 && Number.isFinite(price.priceUsd));
+  if (usable.length === 0) return null;
+
+  const values = usable.map(price => price.priceUsd);
+  const priceUsd = weightedMedian(usable.map(price => ({ value: price.priceUsd, weight: weights.get(price.source) ?? 1 })));
+  const spreadBps = (Math.max(...values) - Math.min(...values)) / priceUsd * 10000;
+
+  return {
+    asset: usable[0].asset,
+    priceUsd,
+    spreadBps,
+    sources: usable,
+    trusted: spreadBps <= maxDeviationBps
+  };
+}
@@ -0,0 +1,8 @@
+// First reconnect delay; doubles per failed attempt up to the caller's maximum
+const RECONNECT_BASE_MS = 1000;
+
+// Exponential backoff with equal jitter: half the delay is fixed, half random
+export function getReconnectDelay(attempt: number, maxMs: number, random: () => number = Math.random): number {
+  const delay = Math.min(maxMs, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.round(delay / 2 + random() * delay / 2);
+}
@@ -3,21 +3,52 @@ import { EventEmitter } from 'events';
 import { getConfig } from '../config/env';
 import logger from '../logging/logger';
 import { PriceData } from '../hf/calc';
+import { PriceSource, PriceSourceName, PriceSourceStatus } from './source';
+import { getReconnectDelay } from './backoff';
 
-function buildCombinedStreamUrl(baseUrl: string, symbols: string[]): string {
+export type BinanceStreamType = 'trade' | 'aggTrade' | 'bookTicker';
+
+export function buildCombinedStreamUrl(baseUrl: string, symbols: string[], streamType: BinanceStreamType = 'trade'): string {
   // Ensure base is root (no trailing /ws or /stream)
   const normalized = baseUrl.replace(/\/ws$/i, '').replace(/\/stream$/i, '');
-  const streams = symbols.map(s => `${s.toLowerCase()}@trade`).join('/');
+  const streams = symbols.map(s => `${s.toLowerCase()}@${streamType}`).join('/');
   return `${normalized}/stream?streams=${streams}`;
 }
 
+// Price and event time from one stream payload (null if the payload has no usable price)
+// trade/aggTrade: { "p": "2450.12", "T": 1712345678901 }; bookTicker: { "b": "2450.10", "a": "2450.14" }
+export function parseStreamPrice(data: any, streamType: BinanceStreamType): { price: number; timestamp: number } | null {
+  let price: number;
+  let timestamp: number = Date.now();
+
+  if (streamType === 'bookTicker') {
+    const bid = parseFloat(data.b);
+    const ask = parseFloat(data.a);
+    if (isNaN(bid) || isNaN(ask) || bid <= 0 || ask <= 0) return null;
+    price = (bid + ask) / 2;
+  } else {
+    price = parseFloat(data.p);
+    if (typeof data.T === 'number') timestamp = data.T;
+  }
+
+  if (isNaN(price)) return null;
+  return { price, timestamp };
+}
+
 // Binance price feed connector using combined streams
-export class BinancePriceFeed extends EventEmitter {
+export class BinancePriceFeed extends EventEmitter implements PriceSource {
+  readonly name: PriceSourceName = 'binance';
   private ws?: WebSocket;
+  private standby?: WebSocket; // Replacement socket opened ahead of the 24h forced disconnect
   private symbols: string[];
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private rotateTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts: number = 0;
+  private lastMessageAt: number = 0;
   private connected: boolean = false;
   private lastPrices: Map<string, PriceData> = new Map();
+  private lastPriceAt: number = 0;
 
   constructor(symbols: string[]) {
     super();
@@ -26,45 +57,128 @@ export class BinancePriceFeed extends EventEmitter {
 
   connect(): void {
     const cfg = getConfig();
-    const wsUrl = buildCombinedStreamUrl(cfg.binanceWsUrl, this.symbols);
-
-    logger.info('Connecting to Binance WebSocket', { symbols: this.symbols });
+    logger.info('Connecting to Binance WebSocket', { symbols: this.symbols, streamType: cfg.binanceStreamType });
     try {
-      this.ws = new WebSocket(wsUrl);
-
-      this.ws.on('open', () => {
-        this.connected = true;
-        logger.info('Binance WebSocket connected');
-        this.emit('connected');
-        // IMPORTANT: Do not send SUBSCRIBE messages — combined streams are already active
-      });
-
-      this.ws.on('message', (raw: WebSocket.Data) => {
-        try {
-          const msg = JSON.parse(raw.toString());
-          this.handleCombinedMessage(msg);
-        } catch (error) {
-          logger.error('Error parsing Binance message', { error });
-        }
-      });
-
-      this.ws.on('error', (error: Error) => {
-        logger.error('Binance WebSocket error', { error: error.message });
-        this.emit('error', error);
-      });
-
-      this.ws.on('close', () => {
-        this.connected = false;
-        logger.warn('Binance WebSocket disconnected');
-        this.emit('disconnected');
-        this.scheduleReconnect();
-      });
+      this.ws = this.openSocket();
     } catch (error) {
       logger.error('Failed to connect to Binance WebSocket', { error });
       this.scheduleReconnect();
     }
   }
 
+  // Open a combined-stream socket; handlers act only while it is the active or standby socket
+  private openSocket(): WebSocket {
+    const cfg = getConfig();
+    const socket = new WebSocket(buildCombinedStreamUrl(cfg.binanceWsUrl, this.symbols, cfg.binanceStreamType));
+
+    socket.on('open', () => {
+      if (socket === this.standby) {
+        logger.info('Binance replacement WebSocket open, waiting for first message');
+        return;
+      }
+      if (socket !== this.ws) return;
+
+      this.connected = true;
+      this.lastMessageAt = Date.now();
+      this.startWatchdog();
+      this.scheduleRotation();
+      logger.info('Binance WebSocket connected');
+      this.emit('connected');
+      // IMPORTANT: Do not send SUBSCRIBE messages — combined streams are already active
+    });
+
+    socket.on('message', (raw: WebSocket.Data) => {
+      // Switch over once the replacement socket is streaming
+      if (socket === this.standby) {
+        this.promoteStandby();
+      }
+      if (socket !== this.ws) return;
+
+      this.lastMessageAt = Date.now();
+      this.reconnectAttempts = 0;
+      try {
+        const msg = JSON.parse(raw.toString());
+        this.handleCombinedMessage(msg);
+      } catch (error) {
+        logger.error('Error parsing Binance message', { error });
+      }
+    });
+
+    socket.on('error', (error: Error) => {
+      logger.error('Binance WebSocket error', { error: error.message, standby: socket === this.standby });
+      if (socket === this.ws) {
+        this.emit('error', error);
+      }
+    });
+
+    socket.on('close', () => {
+      if (socket === this.standby) {
+        logger.warn('Binance replacement WebSocket closed before switchover');
+        this.standby = undefined;
+        return;
+      }
+      if (socket !== this.ws) return;
+
+      this.connected = false;
+      this.ws = undefined;
+      this.stopTimers();
+      logger.warn('Binance WebSocket disconnected');
+      this.emit('disconnected');
+      this.scheduleReconnect();
+    });
+
+    return socket;
+  }
+
+  // Force a reconnect when the socket stops delivering messages (half-open connections look alive)
+  private startWatchdog(): void {
+    const windowMs = getConfig().binanceWatchdogMs;
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    if (windowMs <= 0) return;
+
+    this.watchdogTimer = setInterval(() => {
+      const silentMs = Date.now() - this.lastMessageAt;
+      if (silentMs <= windowMs || !this.ws) return;
+
+      logger.warn('Binance WebSocket silent, forcing reconnect', { silentMs, windowMs });
+      this.ws.terminate(); // Emits 'close', which schedules the reconnect
+    }, Math.min(windowMs, 5000));
+  }
+
+  // Binance drops connections after 24h; open a replacement shortly before
+  private scheduleRotation(): void {
+    const rotateMs = getConfig().binanceRotateMs;
+    if (this.rotateTimer) clearTimeout(this.rotateTimer);
+    if (rotateMs <= 0) return;
+
+    this.rotateTimer = setTimeout(() => {
+      this.rotateTimer = null;
+      if (this.standby) return;
+      logger.info('Opening replacement Binance WebSocket ahead of the 24h disconnect');
+      try {
+        this.standby = this.openSocket();
+      } catch (error) {
+        logger.error('Failed to open replacement Binance WebSocket', { error });
+      }
+    }, rotateMs);
+  }
+
+  // Make the standby socket active and close the old one without triggering a reconnect
+  private promoteStandby(): void {
+    const previous = this.ws;
+    this.ws = this.standby;
+    this.standby = undefined;
+    this.lastMessageAt = Date.now();
+    this.scheduleRotation();
+
+    if (previous) {
+      previous.removeAllListeners();
+      previous.on('error', () => { /* closing */ });
+      previous.close();
+    }
+    logger.info('Switched to replacement Binance WebSocket');
+  }
+
   // Combined stream format:
   // {
   //   "stream": "ethusdt@trade",
@@ -78,14 +192,12 @@ export class BinancePriceFeed extends EventEmitter {
     // Prefer stream-derived symbol for robustness
     const streamSymbol = streamName.split('@')[0]; // e.g., 'ethusdt'
     const symbol = (data.s || streamSymbol).toString().toUpperCase(); // 'ETHUSDT', 'USDCUSDT'
-    const priceStr = data.p; // trade price
-    const ts = data.T; // trade time
 
-    const price = parseFloat(priceStr);
-    if (!symbol || isNaN(price)) return;
+    const cfg = getConfig();
+    const parsed = parseStreamPrice(data, cfg.binanceStreamType);
+    if (!symbol || !parsed) return;
 
     // Map symbol to asset using env BINANCE_SYMBOL_MAP; fallback by stripping quote
-    const cfg = getConfig();
     let asset = '';
     for (const [assetName, binanceSymbol] of cfg.binanceSymbolMap) {
       if (binanceSymbol.toLowerCase() === symbol.toLowerCase()) {
@@ -103,36 +215,57 @@ export class BinancePriceFeed extends EventEmitter {
       return;
     }
 
+    // Unchanged bookTicker mids are still emitted: they keep quiet pairs (e.g. USDCUSDT) live,
+    // and the aggregator debounces recomputation
     const priceData: PriceData = {
       asset,
-      priceUsd: price,
-      timestamp: typeof ts === 'number' ? ts : Date.now(),
+      priceUsd: parsed.price,
+      timestamp: parsed.timestamp,
       source: 'binance'
     };
 
     this.lastPrices.set(asset, priceData);
+    this.lastPriceAt = Date.now();
     this.emit('price', priceData);
   }
 
   private scheduleReconnect(): void {
     if (this.reconnectTimer) return;
-    const delayMs = 2000; // 2s per guidance (1–3s)
-    logger.info('Scheduling Binance WebSocket reconnection', { delayMs });
+    const delayMs = getReconnectDelay(this.reconnectAttempts, getConfig().binanceReconnectMaxMs);
+    this.reconnectAttempts++;
+    logger.info('Scheduling Binance WebSocket reconnection', { delayMs, attempt: this.reconnectAttempts });
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
       this.connect();
     }, delayMs);
   }
 
+  private stopTimers(): void {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+    if (this.rotateTimer) {
+      clearTimeout(this.rotateTimer);
+      this.rotateTimer = null;
+    }
+  }
+
   disconnect(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = undefined;
+    this.stopTimers();
+    for (const socket of [this.ws, this.standby]) {
+      if (socket) {
+        socket.removeAllListeners();
+        socket.on('error', () => { /* closing */ });
+        socket.close();
+      }
     }
+    this.ws = undefined;
+    this.standby = undefined;
     this.connected = false;
     logger.info('Binance WebSocket disconnected');
   }
@@ -144,4 +277,12 @@ export class BinancePriceFeed extends EventEmitter {
   isActive(): boolean {
     return this.connected;
   }
+
+  getStatus(): PriceSourceStatus {
+    return {
+      connected: this.connected,
+      lastPriceAt: this.lastPriceAt,
+      priceCount: this.lastPrices.size
+    };
+  }
 }
@@ -0,0 +1,59 @@
+import WebSocket from 'ws';
+import logger from '../logging/logger';
+import { PriceSourceName } from './source';
+import { ExchangePriceFeed, ExchangeTicker } from './exchange';
+
+// Bybit recommends a {"op":"ping"} every 20s to keep the connection open
+const PING_INTERVAL_MS = 20000;
+
+// Ticker price from one Bybit v5 public message (null for other topics)
+// {
+//   "topic": "tickers.ETHUSDT",
+//   "ts": 1712345678901,
+//   "type": "snapshot",
+//   "data": { "symbol": "ETHUSDT", "lastPrice": "2450.12", ... }
+// }
+export function parseBybitTicker(message: any): ExchangeTicker | null {
+  if (typeof message?.topic !== 'string' || !message.topic.startsWith('tickers.') || !message.data) return null;
+
+  const symbol = message.data.symbol || message.topic.slice('tickers.'.length);
+  const price = parseFloat(message.data.lastPrice);
+  if (!symbol || isNaN(price) || price <= 0) return null;
+
+  return { symbol, price, timestamp: typeof message.ts === 'number' ? message.ts : Date.now() };
+}
+
+// Bybit price feed connector (v5 public spot tickers)
+export class BybitPriceFeed extends ExchangePriceFeed {
+  readonly name: PriceSourceName = 'bybit';
+
+  // symbolMap: asset -> symbol (BYBIT_SYMBOL_MAP)
+  constructor(wsUrl: string, symbolMap: Map<string, string>) {
+    super('Bybit', wsUrl, symbolMap, PING_INTERVAL_MS);
+  }
+
+  protected subscribe(ws: WebSocket): void {
+    const args = this.getSymbols().map(symbol => `tickers.${symbol}`);
+    ws.send(JSON.stringify({ op: 'subscribe', args }));
+    logger.info('Subscribed to Bybit tickers', { count: args.length });
+  }
+
+  protected ping(ws: WebSocket): void {
+    ws.send(JSON.stringify({ op: 'ping' }));
+  }
+
+  protected parseMessage(text: string): ExchangeTicker[] {
+    const message = JSON.parse(text);
+
+    // Command responses: { "success": false, "ret_msg": "...", "op": "subscribe" }
+    if (message?.op !== undefined) {
+      if (message.success === false) {
+        logger.error('Bybit request failed', { op: message.op, retMsg: message.ret_msg });
+      }
+      return [];
+    }
+
+    const ticker = parseBybitTicker(message);
+    return ticker ? [ticker] : [];
+  }
+}
@@ -0,0 +1,246 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { getConfig } from '../config/env';
+import { CHAINLINK_AGGREGATOR_ABI } from '../aave/addresses';
+import { oracleSources, OracleSource } from '../aave/sources';
+import { getMulticall } from '../rpc/multicall';
+import logger from '../logging/logger';
+
+const AGGREGATOR_INTERFACE = new ethers.Interface(CHAINLINK_AGGREGATOR_ABI);
+
+// Predict a heartbeat update this many seconds before it is due
+const HEARTBEAT_LEAD_SECONDS = 10;
+
+// Last on-chain answer of a feed and its update rules
+export interface FeedModel {
+  asset: string;
+  source: string; // Chainlink proxy returned by AaveOracle.getSourceOfAsset
+  aggregator: string; // Contract emitting the update events
+  decimals: number;
+  deviationBps: number; // Update when the off-chain price moves this far from the answer
+  heartbeatSec: number; // Update at least this often
+  answer: number; // USD
+  updatedAt: number; // Seconds
+  lastPredictedPrice?: number; // Off-chain price of the last prediction in this round
+}
+
+// Expected oracle update for an asset
+export interface OracleUpdatePrediction {
+  asset: string;
+  reason: 'deviation' | 'heartbeat';
+  currentAnswer: number;
+  predictedPrice: number; // The answer is expected to move to the off-chain price
+  deviationBps: number; // Off-chain price vs current answer
+  expectedAt: number; // Seconds
+}
+
+// Decide whether a feed is about to update given the off-chain price
+// Returns null when no update is expected or this round was already predicted at a similar price
+export function predictOracleUpdate(
+  model: FeedModel,
+  offchainPrice: number,
+  nowSec: number
+): OracleUpdatePrediction | null {
+  if (model.answer <= 0 || offchainPrice <= 0) return null;
+
+  const deviationBps = Math.abs(offchainPrice - model.answer) / model.answer * 10000;
+  const heartbeatDueAt = model.updatedAt + model.heartbeatSec;
+
+  let reason: OracleUpdatePrediction['reason'];
+  let expectedAt: number;
+  if (deviationBps >= model.deviationBps) {
+    reason = 'deviation';
+    expectedAt = nowSec;
+  } else if (heartbeatDueAt - nowSec <= HEARTBEAT_LEAD_SECONDS) {
+    reason = 'heartbeat';
+    expectedAt = Math.max(nowSec, heartbeatDueAt);
+  } else {
+    return null;
+  }
+
+  // Re-predict within a round only if the price moved another half threshold
+  if (model.lastPredictedPrice !== undefined) {
+    const moveBps = Math.abs(offchainPrice - model.lastPredictedPrice) / model.lastPredictedPrice * 10000;
+    if (moveBps < model.deviationBps / 2) return null;
+  }
+
+  return {
+    asset: model.asset,
+    reason,
+    currentAnswer: model.answer,
+    predictedPrice: offchainPrice,
+    deviationBps,
+    expectedAt
+  };
+}
+
+// Sources answering with the raw Chainlink price
+function isChainlinkSource(source: OracleSource): boolean {
+  return source.kind === 'chainlink' && source.decimals !== null;
+}
+
+// Watches the Chainlink aggregators behind AaveOracle and predicts their next update
+export class ChainlinkOracleWatcher extends EventEmitter {
+  private feeds: Map<string, FeedModel> = new Map();
+  private contracts: Map<string, ethers.Contract> = new Map(); // Lowercased aggregator -> subscription
+  private handledTxs: Set<string> = new Set(); // Aggregator:txHash already applied
+
+  // Load the latest answer of each Chainlink source in the oracle-source registry and subscribe to updates
+  async start(provider: ethers.JsonRpcProvider): Promise<void> {
+    // CAPO and custom sources do not answer with the raw Chainlink price
+    const sources = oracleSources.getAll().filter(isChainlinkSource);
+    await Promise.all(sources.map(source => this.loadFeed(provider, source)));
+
+    // One subscription per aggregator: several assets can share one (e.g. USDC and USDbC)
+    this.syncSubscriptions(provider);
+
+    logger.info('Chainlink oracle watcher started', {
+      feeds: Array.from(this.feeds.values()).map(f => ({
+        asset: f.asset,
+        aggregator: f.aggregator,
+        deviationBps: f.deviationBps,
+        heartbeatSec: f.heartbeatSec
+      }))
+    });
+  }
+
+  // Reload an asset's feed after its oracle source changed and move its subscription to the new aggregator
+  async refreshAsset(provider: ethers.JsonRpcProvider, asset: string): Promise<void> {
+    const source = oracleSources.get(asset);
+    this.feeds.delete(asset);
+    if (source && isChainlinkSource(source)) {
+      await this.loadFeed(provider, source);
+    }
+    this.syncSubscriptions(provider);
+
+    const feed = this.feeds.get(asset);
+    logger.info('Chainlink feed refreshed', { asset, kind: source?.kind, aggregator: feed?.aggregator, answer: feed?.answer });
+  }
+
+  // Read the latest round of a Chainlink source into its feed model
+  private async loadFeed(provider: ethers.JsonRpcProvider, source: OracleSource): Promise<void> {
+    const config = getConfig();
+    const round = await getMulticall(provider).call<ethers.Result>(source.source, AGGREGATOR_INTERFACE, 'latestRoundData');
+    if (round === null) {
+      logger.warn('Failed to read latest Chainlink round, updates will not be predicted', { asset: source.asset });
+      return;
+    }
+
+    this.feeds.set(source.asset, {
+      asset: source.asset,
+      source: source.source,
+      aggregator: source.aggregator,
+      decimals: source.decimals!,
+      deviationBps: config.chainlinkDeviationBpsMap.get(source.asset) ?? config.chainlinkDefaultDeviationBps,
+      heartbeatSec: source.heartbeatSec,
+      answer: Number(round.answer) / 10 ** source.decimals!,
+      updatedAt: Number(round.updatedAt)
+    });
+  }
+
+  // Subscribe to aggregators of watched feeds and drop subscriptions no feed uses anymore
+  private syncSubscriptions(provider: ethers.JsonRpcProvider): void {
+    const aggregators = new Set(Array.from(this.feeds.values()).map(feed => feed.aggregator.toLowerCase()));
+
+    for (const [aggregator, contract] of this.contracts) {
+      if (aggregators.has(aggregator)) continue;
+      contract.removeAllListeners();
+      this.contracts.delete(aggregator);
+    }
+
+    for (const aggregator of aggregators) {
+      if (this.contracts.has(aggregator)) continue;
+      const contract = new ethers.Contract(aggregator, CHAINLINK_AGGREGATOR_ABI, provider);
+
+      contract.on('AnswerUpdated', (current: bigint, _roundId: bigint, updatedAt: bigint, event: ethers.ContractEventPayload) => {
+        this.handleAnswer(aggregator, current, Number(updatedAt), event.log);
+      });
+
+      // OCR aggregators emit this alongside AnswerUpdated; handled once per transaction
+      contract.on('NewTransmission', (
+        _aggregatorRoundId: bigint,
+        answer: bigint,
+        _transmitter: string,
+        observationsTimestamp: bigint,
+        _observations: bigint[],
+        _observers: string,
+        _juelsPerFeeCoin: bigint,
+        _configDigest: string,
+        _epochAndRound: bigint,
+        event: ethers.ContractEventPayload
+      ) => {
+        this.handleAnswer(aggregator, answer, Number(observationsTimestamp), event.log);
+      });
+
+      this.contracts.set(aggregator, contract);
+    }
+  }
+
+  // Apply a new on-chain answer to every watched asset priced by the aggregator
+  private handleAnswer(aggregator: string, answer: bigint, updatedAt: number, log: ethers.Log): void {
+    const key = `${aggregator.toLowerCase()}:${log.transactionHash}`;
+    if (this.handledTxs.has(key)) return;
+    this.handledTxs.add(key);
+    if (this.handledTxs.size > 1000) {
+      const oldest = this.handledTxs.values().next().value;
+      if (oldest) this.handledTxs.delete(oldest);
+    }
+
+    for (const asset of oracleSources.getAssetsByAggregator(aggregator)) {
+      const feed = this.feeds.get(asset);
+      if (!feed) continue;
+
+      const previous = feed.answer;
+      feed.answer = Number(answer) / 10 ** feed.decimals;
+      feed.updatedAt = updatedAt;
+      feed.lastPredictedPrice = undefined;
+
+      logger.info('Chainlink answer updated', {
+        asset,
+        previous,
+        answer: feed.answer,
+        blockNumber: log.blockNumber
+      });
+
+      this.emit('oracleUpdate', asset, feed.answer, log.blockNumber);
+    }
+  }
+
+  // Predict the next update of an asset's feed from the off-chain price
+  predictUpdate(asset: string, offchainPrice: number, nowSec: number = Math.floor(Date.now() / 1000)): OracleUpdatePrediction | null {
+    const feed = this.feeds.get(asset);
+    if (!feed) return null;
+
+    const prediction = predictOracleUpdate(feed, offchainPrice, nowSec);
+    if (prediction) {
+      feed.lastPredictedPrice = offchainPrice;
+    }
+    return prediction;
+  }
+
+  // Latest on-chain answers (USD) by asset
+  getOraclePrices(): Map<string, number> {
+    const prices = new Map<string, number>();
+    for (const feed of this.feeds.values()) {
+      prices.set(feed.asset, feed.answer);
+    }
+    return prices;
+  }
+
+  // Feed model of an asset
+  getFeed(asset: string): FeedModel | undefined {
+    return this.feeds.get(asset);
+  }
+
+  // Remove event subscriptions
+  stop(): void {
+    for (const contract of this.contracts.values()) {
+      contract.removeAllListeners();
+    }
+    this.contracts.clear();
+    logger.info('Chainlink oracle watcher stopped');
+  }
+}
+
+// Export singleton instance
+export const chainlinkWatcher = new ChainlinkOracleWatcher();
@@ -0,0 +1,55 @@
+import WebSocket from 'ws';
+import logger from '../logging/logger';
+import { PriceSourceName } from './source';
+import { ExchangePriceFeed, ExchangeTicker } from './exchange';
+
+// Ticker prices from one Coinbase Advanced Trade message
+// {
+//   "channel": "ticker",
+//   "timestamp": "2024-04-05T19:21:18.904Z",
+//   "events": [{ "type": "update", "tickers": [{ "product_id": "ETH-USD", "price": "2450.12", ... }] }]
+// }
+export function parseCoinbaseTickers(message: any): ExchangeTicker[] {
+  if (message?.channel !== 'ticker' || !Array.isArray(message.events)) return [];
+
+  const parsedTime = Date.parse(message.timestamp);
+  const timestamp = isNaN(parsedTime) ? Date.now() : parsedTime;
+  const tickers: ExchangeTicker[] = [];
+
+  for (const event of message.events) {
+    for (const ticker of event?.tickers ?? []) {
+      const price = parseFloat(ticker.price);
+      if (!ticker.product_id || isNaN(price) || price <= 0) continue;
+      tickers.push({ symbol: ticker.product_id, price, timestamp });
+    }
+  }
+  return tickers;
+}
+
+// Coinbase Advanced Trade price feed connector (public ticker channel)
+export class CoinbasePriceFeed extends ExchangePriceFeed {
+  readonly name: PriceSourceName = 'coinbase';
+
+  // symbolMap: asset -> product id (COINBASE_SYMBOL_MAP)
+  constructor(wsUrl: string, symbolMap: Map<string, string>) {
+    super('Coinbase', wsUrl, symbolMap);
+  }
+
+  // Subscribe to tickers, plus heartbeats so quiet products do not get the socket closed
+  protected subscribe(ws: WebSocket): void {
+    const productIds = this.getSymbols();
+    for (const channel of ['ticker', 'heartbeats']) {
+      ws.send(JSON.stringify({ type: 'subscribe', product_ids: productIds, channel }));
+    }
+    logger.info('Subscribed to Coinbase tickers', { count: productIds.length });
+  }
+
+  protected parseMessage(text: string): ExchangeTicker[] {
+    const message = JSON.parse(text);
+    if (message?.type === 'error') {
+      logger.error('Coinbase subscription error', { message: message.message });
+      return [];
+    }
+    return parseCoinbaseTickers(message);
+  }
+}
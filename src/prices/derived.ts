@@ -0,0 +1,173 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { getConfig } from '../config/env';
+import { PRICE_CAP_ADAPTER_ABI } from '../aave/addresses';
+import { oracleSources } from '../aave/sources';
+import { getMulticall } from '../rpc/multicall';
+import { PriceData } from '../hf/calc';
+import { PriceSource, PriceSourceName, PriceSourceStatus } from './source';
+import logger from '../logging/logger';
+
+const CAPO_INTERFACE = new ethers.Interface(PRICE_CAP_ADAPTER_ABI);
+
+// LST exchange rate and the CAPO growth cap read from its Aave price adapter
+export interface ExchangeRate {
+  asset: string; // LST, e.g. wstETH
+  baseAsset: string; // Asset the rate is quoted in, e.g. WETH
+  ratio: bigint; // Uncapped exchange rate from the ratio provider
+  ratioDecimals: number;
+  snapshotRatio: bigint;
+  snapshotTimestamp: number; // Seconds
+  maxRatioGrowthPerSecond: bigint;
+  updatedAt: number;
+}
+
+// Exchange rate the adapter would use: the ratio may not grow faster than the cap since the snapshot
+export function getCappedRatio(rate: ExchangeRate, nowSec: number): bigint {
+  const elapsed = BigInt(Math.max(0, Math.floor(nowSec) - rate.snapshotTimestamp));
+  const maxRatio = rate.snapshotRatio + rate.maxRatioGrowthPerSecond * elapsed;
+  return rate.ratio > maxRatio ? maxRatio : rate.ratio;
+}
+
+// LST price from its base asset price
+export function deriveLstPrice(rate: ExchangeRate, basePrice: PriceData, nowSec: number): PriceData {
+  const ratio = Number(getCappedRatio(rate, nowSec)) / 10 ** rate.ratioDecimals;
+  return {
+    asset: rate.asset,
+    priceUsd: basePrice.priceUsd * ratio,
+    timestamp: basePrice.timestamp,
+    source: 'derived',
+    confUsd: basePrice.confUsd !== undefined ? basePrice.confUsd * ratio : undefined
+  };
+}
+
+// Prices LSTs as base asset price × on-chain exchange rate, mirroring the Aave CAPO adapters
+class DerivedPriceSource extends EventEmitter implements PriceSource {
+  readonly name: PriceSourceName = 'derived';
+  private rates: Map<string, ExchangeRate> = new Map();
+  private lastRefreshBlock: number = 0;
+  private connected: boolean = false;
+  private lastPrices: Map<string, PriceData> = new Map();
+  private lastPriceAt: number = 0;
+  
+  // No connection: prices follow the aggregated base asset prices
+  connect(): void {
+    this.connected = true;
+    this.emit('connected');
+  }
+  
+  disconnect(): void {
+    this.connected = false;
+  }
+  
+  // Re-price the LSTs quoted in an aggregated base asset price
+  onAggregatedPrice(basePrice: PriceData): void {
+    if (!this.connected) return;
+    for (const price of this.derive(basePrice)) {
+      this.lastPrices.set(price.asset, price);
+      this.lastPriceAt = Date.now();
+      this.emit('price', price);
+    }
+  }
+  
+  getLastPrices(): Map<string, PriceData> {
+    return new Map(this.lastPrices);
+  }
+  
+  getStatus(): PriceSourceStatus {
+    return {
+      connected: this.connected,
+      lastPriceAt: this.lastPriceAt,
+      priceCount: this.lastPrices.size
+    };
+  }
+
+  // Get the exchange rate of an LST
+  get(asset: string): ExchangeRate | undefined {
+    return this.rates.get(asset);
+  }
+
+  // Store exchange rate (used by refresh and tests)
+  set(rate: ExchangeRate): void {
+    this.rates.set(rate.asset, rate);
+  }
+
+  // Derived prices of every LST quoted in the updated asset
+  derive(basePrice: PriceData, nowSec: number = Date.now() / 1000): PriceData[] {
+    const derived: PriceData[] = [];
+    for (const rate of this.rates.values()) {
+      if (rate.baseAsset !== basePrice.asset || rate.ratio <= 0n) continue;
+      derived.push(deriveLstPrice(rate, basePrice, nowSec));
+    }
+    return derived;
+  }
+
+  // Read exchange rates and cap parameters from the CAPO adapters in the oracle-source registry
+  async refresh(provider: ethers.JsonRpcProvider): Promise<void> {
+    const config = getConfig();
+    const multicall = getMulticall(provider);
+
+    await Promise.all(Array.from(config.derivedPriceMap).map(async ([asset, baseAsset]) => {
+      const source = oracleSources.get(asset);
+      if (!source || source.kind !== 'capo') {
+        logger.debug('No CAPO adapter for derived asset, skipping', { asset, kind: source?.kind });
+        return;
+      }
+
+      const [ratio, ratioDecimals, snapshotRatio, snapshotTimestamp, maxRatioGrowthPerSecond] = await Promise.all([
+        multicall.call<bigint>(source.source, CAPO_INTERFACE, 'getRatio'),
+        multicall.call<bigint>(source.source, CAPO_INTERFACE, 'RATIO_DECIMALS'),
+        multicall.call<bigint>(source.source, CAPO_INTERFACE, 'getSnapshotRatio'),
+        multicall.call<bigint>(source.source, CAPO_INTERFACE, 'getSnapshotTimestamp'),
+        multicall.call<bigint>(source.source, CAPO_INTERFACE, 'getMaxRatioGrowthPerSecond')
+      ]);
+
+      if (ratio === null || ratioDecimals === null || snapshotRatio === null ||
+          snapshotTimestamp === null || maxRatioGrowthPerSecond === null) {
+        logger.error('Failed to read exchange rate for derived asset', { asset, adapter: source.source });
+        return;
+      }
+
+      this.rates.set(asset, {
+        asset,
+        baseAsset,
+        ratio,
+        ratioDecimals: Number(ratioDecimals),
+        snapshotRatio,
+        snapshotTimestamp: Number(snapshotTimestamp),
+        maxRatioGrowthPerSecond,
+        updatedAt: Date.now()
+      });
+    }));
+
+    logger.debug('Derived price exchange rates refreshed', {
+      rates: Array.from(this.rates.values()).map(rate => ({
+        asset: rate.asset,
+        ratio: Number(getCappedRatio(rate, Date.now() / 1000)) / 10 ** rate.ratioDecimals,
+        capped: getCappedRatio(rate, Date.now() / 1000) < rate.ratio
+      }))
+    });
+  }
+
+  // Check if periodic refresh is due at block
+  isRefreshDue(blockNumber: number, intervalBlocks: number): boolean {
+    if (intervalBlocks <= 0) return false;
+    return blockNumber - this.lastRefreshBlock >= intervalBlocks;
+  }
+
+  // Mark refresh as started at block (prevents overlapping refreshes)
+  markRefreshed(blockNumber: number): void {
+    this.lastRefreshBlock = blockNumber;
+  }
+
+  // Clear rates and prices (for testing)
+  clear(): void {
+    this.rates.clear();
+    this.lastRefreshBlock = 0;
+    this.lastPrices.clear();
+    this.lastPriceAt = 0;
+  }
+}
+
+// Export singleton instance
+export const derivedPriceSource = new DerivedPriceSource();
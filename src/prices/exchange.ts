@@ -0,0 +1,182 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import logger from '../logging/logger';
+import { PriceData } from '../hf/calc';
+import { PriceSource, PriceSourceName, PriceSourceStatus } from './source';
+import { getReconnectDelay } from './backoff';
+
+const RECONNECT_MAX_MS = 30000;
+
+// Ticker price parsed from one exchange message
+export interface ExchangeTicker {
+  symbol: string; // Exchange symbol, e.g. 'ETH-USD'
+  price: number;
+  timestamp: number;
+}
+
+// Ticker feed over one public exchange WebSocket
+// Handles connection, reconnect backoff, keepalive pings, symbol mapping and status;
+// each exchange only supplies its subscription and message parsing
+export abstract class ExchangePriceFeed extends EventEmitter implements PriceSource {
+  abstract readonly name: PriceSourceName;
+  private ws?: WebSocket;
+  private assetsBySymbol: Map<string, string> = new Map(); // Exchange symbol -> asset
+  private label: string; // Exchange name for logs
+  private wsUrl: string;
+  private pingIntervalMs: number; // 0 = no keepalive
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts: number = 0;
+  private connected: boolean = false;
+  private lastPrices: Map<string, PriceData> = new Map();
+  private lastPriceAt: number = 0;
+
+  // symbolMap: asset -> exchange symbol
+  constructor(label: string, wsUrl: string, symbolMap: Map<string, string>, pingIntervalMs: number = 0) {
+    super();
+    this.label = label;
+    this.wsUrl = wsUrl;
+    this.pingIntervalMs = pingIntervalMs;
+    for (const [asset, symbol] of symbolMap) {
+      this.assetsBySymbol.set(symbol.toUpperCase(), asset);
+    }
+  }
+
+  // Mapped exchange symbols (uppercase)
+  protected getSymbols(): string[] {
+    return Array.from(this.assetsBySymbol.keys());
+  }
+
+  // Send the subscription requests for every mapped symbol
+  protected abstract subscribe(ws: WebSocket): void;
+
+  // Ticker prices in one message (empty for acks, errors and keepalive replies)
+  protected abstract parseMessage(text: string): ExchangeTicker[];
+
+  // Send one keepalive ping (only called when a ping interval is set)
+  protected ping(_ws: WebSocket): void {
+    // No keepalive by default
+  }
+
+  connect(): void {
+    logger.info(`Connecting to ${this.label} WebSocket`, { symbols: this.getSymbols() });
+
+    try {
+      const ws = new WebSocket(this.wsUrl);
+      this.ws = ws;
+
+      ws.on('open', () => {
+        this.connected = true;
+        logger.info(`${this.label} WebSocket connected`);
+        this.emit('connected');
+        this.subscribe(ws);
+        this.startPing();
+      });
+
+      ws.on('message', (data: WebSocket.Data) => {
+        this.reconnectAttempts = 0;
+        try {
+          this.handleTickers(this.parseMessage(data.toString()));
+        } catch (error) {
+          logger.error(`Error parsing ${this.label} message`, { error });
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        logger.error(`${this.label} WebSocket error`, { error: error.message });
+        this.emit('error', error);
+      });
+
+      ws.on('close', () => {
+        this.connected = false;
+        this.stopPing();
+        logger.warn(`${this.label} WebSocket disconnected`);
+        this.emit('disconnected');
+        this.scheduleReconnect();
+      });
+    } catch (error) {
+      logger.error(`Failed to connect to ${this.label} WebSocket`, { error });
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleTickers(tickers: ExchangeTicker[]): void {
+    for (const ticker of tickers) {
+      const asset = this.assetsBySymbol.get(ticker.symbol.toUpperCase());
+      if (!asset) {
+        logger.debug(`Unknown ${this.label} symbol`, { symbol: ticker.symbol });
+        continue;
+      }
+
+      const priceData: PriceData = {
+        asset,
+        priceUsd: ticker.price,
+        timestamp: ticker.timestamp,
+        source: this.name
+      };
+
+      this.lastPrices.set(asset, priceData);
+      this.lastPriceAt = Date.now();
+      this.emit('price', priceData);
+    }
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    if (this.pingIntervalMs <= 0) return;
+    this.pingTimer = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ping(this.ws);
+      }
+    }, this.pingIntervalMs);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+    const delayMs = getReconnectDelay(this.reconnectAttempts++, RECONNECT_MAX_MS);
+    logger.info(`Scheduling ${this.label} WebSocket reconnection`, { delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delayMs);
+  }
+
+  disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => { /* closing */ });
+      this.ws.close();
+      this.ws = undefined;
+    }
+    this.connected = false;
+    logger.info(`${this.label} WebSocket disconnected`);
+  }
+
+  getLastPrices(): Map<string, PriceData> {
+    return new Map(this.lastPrices);
+  }
+
+  isActive(): boolean {
+    return this.connected;
+  }
+
+  getStatus(): PriceSourceStatus {
+    return {
+      connected: this.connected,
+      lastPriceAt: this.lastPriceAt,
+      priceCount: this.lastPrices.size
+    };
+  }
+}
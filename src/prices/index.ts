@@ -1,89 +1,129 @@
 import { EventEmitter } from 'events';
 import { BinancePriceFeed } from './binance';
 import { PythPriceFeed } from './pyth';
+import { CoinbasePriceFeed } from './coinbase';
+import { OkxPriceFeed } from './okx';
+import { BybitPriceFeed } from './bybit';
+import { PriceSource, PriceSourceName, isPriceSourceName } from './source';
+import { derivedPriceSource } from './derived';
+import { aggregateSourcePrices, PriceAggregate } from './aggregate';
 import { PriceData } from '../hf/calc';
-import { getConfig } from '../config/env';
+import { BotConfig, getConfig } from '../config/env';
 import logger from '../logging/logger';
 
+// Build each source from config (null when it has no symbols / feed IDs)
+const SOURCE_FACTORIES: Record<PriceSourceName, (config: BotConfig) => PriceSource | null> = {
+  binance: config => config.binanceSymbols.length > 0 ? new BinancePriceFeed(config.binanceSymbols) : null,
+  pyth: config => config.pythFeedIds.length > 0 ? new PythPriceFeed(config.pythFeedIds) : null,
+  coinbase: config => config.coinbaseSymbolMap.size > 0 ? new CoinbasePriceFeed(config.coinbaseWsUrl, config.coinbaseSymbolMap) : null,
+  okx: config => config.okxSymbolMap.size > 0 ? new OkxPriceFeed(config.okxWsUrl, config.okxSymbolMap) : null,
+  bybit: config => config.bybitSymbolMap.size > 0 ? new BybitPriceFeed(config.bybitWsUrl, config.bybitSymbolMap) : null,
+  derived: config => config.derivedPriceMap.size > 0 ? derivedPriceSource : null
+};
+
 // Price aggregator that combines multiple price sources
 export class PriceAggregator extends EventEmitter {
-  private binanceFeed?: BinancePriceFeed;
-  private pythFeed?: PythPriceFeed;
-  private prices: Map<string, PriceData> = new Map();
+  private sources: Map<PriceSourceName, PriceSource> = new Map(); // Enabled streaming sources (PRICE_SOURCES)
+  private prices: Map<string, PriceData> = new Map(); // Aggregated price per asset
+  private sourcePrices: Map<string, Map<PriceData['source'], { price: PriceData; receivedAt: number }>> = new Map();
+  private aggregates: Map<string, PriceAggregate> = new Map();
+  private untrustedAssets: Map<string, number> = new Map(); // Asset -> time sources started disagreeing
   private updateDebounceTimers: Map<string, NodeJS.Timeout> = new Map();
   
-  // Track last update timestamps for staleness checks
-  private lastBinanceUpdate: number = 0;
-  private lastPythUpdate: number = 0;
-  private binanceConnected: boolean = false;
-  private pythConnected: boolean = false;
-  
   constructor() {
     super();
   }
   
-  // Initialize price feeds
+  // Initialize the price sources enabled in PRICE_SOURCES
   initialize(): void {
     const config = getConfig();
     
-    // Initialize Binance feed
-    if (config.binanceSymbols.length > 0) {
-      this.binanceFeed = new BinancePriceFeed(config.binanceSymbols);
-      
-      this.binanceFeed.on('price', (priceData: PriceData) => {
-        this.lastBinanceUpdate = Date.now();
-        this.handlePriceUpdate(priceData);
-      });
-      
-      this.binanceFeed.on('connected', () => {
-        this.binanceConnected = true;
-        this.lastBinanceUpdate = Date.now();
-        logger.info('Binance price feed connected');
-      });
-      
-      this.binanceFeed.on('error', (error: Error) => {
-        this.binanceConnected = false;
-        logger.error('Binance price feed error', { error: error.message });
-      });
-      
-      this.binanceFeed.connect();
+    for (const name of config.priceSources) {
+      if (!isPriceSourceName(name)) {
+        logger.warn('Unknown price source, skipping', { source: name });
+        continue;
+      }
+      const source = SOURCE_FACTORIES[name](config);
+      if (!source) {
+        logger.warn('Price source enabled but not configured, skipping', { source: name });
+        continue;
+      }
+      this.addSource(source);
     }
     
-    // Initialize Pyth feed
-    if (config.pythFeedIds.length > 0) {
-      this.pythFeed = new PythPriceFeed(config.pythFeedIds);
-      
-      this.pythFeed.on('price', (priceData: PriceData) => {
-        this.lastPythUpdate = Date.now();
-        this.handlePriceUpdate(priceData);
-      });
-      
-      this.pythFeed.on('connected', () => {
-        this.pythConnected = true;
-        this.lastPythUpdate = Date.now();
-        logger.info('Pyth price feed connected');
-      });
-      
-      this.pythFeed.on('error', (error: Error) => {
-        this.pythConnected = false;
-        logger.error('Pyth price feed error', { error: error.message });
-      });
-      
-      this.pythFeed.connect();
-    }
+    logger.info('Price aggregator initialized', {
+      sources: Array.from(this.sources.keys()).map(name => ({ name, weight: this.getSourceWeight(name) }))
+    });
+  }
+  
+  // Wire a source into the aggregator and connect it
+  addSource(source: PriceSource): void {
+    this.sources.get(source.name)?.disconnect();
+    this.sources.set(source.name, source);
     
-    logger.info('Price aggregator initialized');
+    source.on('price', (priceData: PriceData) => this.handlePriceUpdate(priceData));
+    source.on('connected', () => logger.info('Price source connected', { source: source.name }));
+    source.on('disconnected', () => this.handleSourceDisconnected(source.name));
+    source.on('error', (error: Error) => {
+      logger.error('Price source error', { source: source.name, error: error.message });
+    });
+    
+    source.connect();
+  }
+  
+  // Stop aggregating a disconnected source's last ticks (they would count until they age out)
+  private handleSourceDisconnected(name: PriceSourceName): void {
+    logger.warn('Price source disconnected', { source: name });
+    for (const sources of this.sourcePrices.values()) {
+      sources.delete(name);
+    }
+  }
+  
+  // Weight of a source in the per-asset median (PRICE_SOURCE_WEIGHTS, default 1)
+  private getSourceWeight(name: string): number {
+    return getConfig().priceSourceWeights.get(name) ?? 1;
   }
   
   // Handle price update from any source
   private handlePriceUpdate(priceData: PriceData): void {
     const { asset } = priceData;
+    const config = getConfig();
+    const now = Date.now();
+    
+    // Keep the latest tick of each source
+    let sources = this.sourcePrices.get(asset);
+    if (!sources) {
+      sources = new Map();
+      this.sourcePrices.set(asset, sources);
+    }
+    sources.set(priceData.source, { price: priceData, receivedAt: now });
+    
+    // Aggregate the sources that ticked recently (the current tick always counts)
+    const live = Array.from(sources.values())
+      .filter(entry => entry.price === priceData || now - entry.receivedAt <= this.getMaxAgeMs(asset, config.priceStaleMs))
+      .map(entry => entry.price);
+    const aggregate = aggregateSourcePrices(live, config.priceMaxDeviationBps, config.priceSourceWeights);
+    if (!aggregate) return;
     
-    // Update stored price
-    this.prices.set(asset, priceData);
+    this.aggregates.set(asset, aggregate);
+    this.updateTrust(aggregate);
+    
+    // Store the aggregated price (source and timestamp of the tick that triggered it,
+    // widest confidence band of the contributing sources)
+    const confs = aggregate.sources.filter(p => p.confUsd !== undefined).map(p => p.confUsd!);
+    const aggregated: PriceData = {
+      ...priceData,
+      priceUsd: aggregate.priceUsd,
+      confUsd: confs.length > 0 ? Math.max(...confs) : undefined
+    };
+    this.prices.set(asset, aggregated);
+    
+    // Let sources priced off this asset (e.g. LSTs quoted in it) re-price, except the one that produced it
+    for (const source of this.sources.values()) {
+      if (source.name !== aggregated.source) source.onAggregatedPrice?.(aggregated);
+    }
     
     // Debounce price updates to avoid excessive recomputation
-    const config = getConfig();
     const existingTimer = this.updateDebounceTimers.get(asset);
     
     if (existingTimer) {
@@ -92,18 +132,62 @@ export class PriceAggregator extends EventEmitter {
     
     const timer = setTimeout(() => {
       this.updateDebounceTimers.delete(asset);
-      this.emit('priceUpdate', priceData);
+      this.emit('priceUpdate', aggregated);
       
       logger.debug('Price updated', {
-        asset: priceData.asset,
-        price: priceData.priceUsd.toFixed(2),
-        source: priceData.source
+        asset,
+        price: aggregated.priceUsd.toFixed(2),
+        spreadBps: aggregate.spreadBps.toFixed(1),
+        source: aggregated.source
       });
     }, config.priceUpdateDebounce);
     
     this.updateDebounceTimers.set(asset, timer);
   }
   
+  // Mark an asset untrusted while its sources disagree beyond PRICE_MAX_DEVIATION_BPS
+  private updateTrust(aggregate: PriceAggregate): void {
+    const { asset } = aggregate;
+    const details = {
+      asset,
+      priceUsd: aggregate.priceUsd,
+      spreadBps: aggregate.spreadBps.toFixed(1),
+      sources: aggregate.sources.map(price => ({ source: price.source, priceUsd: price.priceUsd }))
+    };
+    
+    if (!aggregate.trusted && !this.untrustedAssets.has(asset)) {
+      this.untrustedAssets.set(asset, Date.now());
+      logger.warn('Price sources disagree, asset marked untrusted', details);
+      this.emit('priceDivergence', aggregate);
+    } else if (aggregate.trusted && this.untrustedAssets.has(asset)) {
+      this.untrustedAssets.delete(asset);
+      logger.info('Price sources agree again, asset trusted', details);
+    }
+  }
+  
+  // Get the per-source aggregate for an asset
+  getPriceAggregate(asset: string): PriceAggregate | undefined {
+    return this.aggregates.get(asset);
+  }
+  
+  // Check if an asset's sources currently agree
+  isAssetTrusted(asset: string): boolean {
+    return !this.untrustedAssets.has(asset);
+  }
+  
+  // Check that none of the given assets is untrusted (execution gate for one borrower)
+  checkAssetsTrusted(assets: string[]): { allowed: boolean; reason?: string } {
+    const untrusted = assets.filter(asset => this.untrustedAssets.has(asset));
+    if (untrusted.length === 0) {
+      return { allowed: true };
+    }
+    
+    return {
+      allowed: false,
+      reason: `Price sources disagree for ${untrusted.join(', ')}`
+    };
+  }
+  
   // Get current price for an asset
   getPrice(asset: string): PriceData | undefined {
     return this.prices.get(asset);
@@ -134,12 +218,8 @@ export class PriceAggregator extends EventEmitter {
   
   // Disconnect all feeds
   disconnect(): void {
-    if (this.binanceFeed) {
-      this.binanceFeed.disconnect();
-    }
-    
-    if (this.pythFeed) {
-      this.pythFeed.disconnect();
+    for (const source of this.sources.values()) {
+      source.disconnect();
     }
     
     // Clear debounce timers
@@ -151,113 +231,109 @@ export class PriceAggregator extends EventEmitter {
     logger.info('Price aggregator disconnected');
   }
   
-  // Get connection status
+  // Get connection status of each source
   getStatus(): {
-    binance: boolean;
-    pyth: boolean;
+    sources: Record<string, boolean>;
     priceCount: number;
   } {
+    const sources: Record<string, boolean> = {};
+    for (const [name, source] of this.sources) {
+      sources[name] = source.getStatus().connected;
+    }
+    
     return {
-      binance: this.binanceFeed?.isActive() || false,
-      pyth: this.pythFeed?.isActive() || false,
+      sources,
       priceCount: this.prices.size
     };
   }
   
-  // Check if prices are stale
-  isPriceStale(priceStaleMs: number): boolean {
+  // Maximum price age for an asset (PRICE_MAX_AGE_MAP override or the global limit)
+  private getMaxAgeMs(asset: string, priceStaleMs: number): number {
+    return getConfig().priceMaxAgeMap.get(asset) ?? priceStaleMs;
+  }
+  
+  // Age of each source's latest tick for an asset
+  getSourceAges(asset: string): Map<PriceData['source'], number> {
     const now = Date.now();
-    
-    // Check if either configured feed is stale
-    let hasStale = false;
-    
-    if (this.binanceFeed && this.binanceConnected) {
-      const binanceStale = (now - this.lastBinanceUpdate > priceStaleMs);
-      if (binanceStale) hasStale = true;
-    }
-    
-    if (this.pythFeed && this.pythConnected) {
-      const pythStale = (now - this.lastPythUpdate > priceStaleMs);
-      if (pythStale) hasStale = true;
+    const ages = new Map<PriceData['source'], number>();
+    for (const [source, entry] of this.sourcePrices.get(asset) ?? []) {
+      ages.set(source, now - entry.receivedAt);
     }
-    
-    return hasStale;
+    return ages;
+  }
+  
+  // Age of the freshest tick for an asset (null if never priced)
+  getAssetAge(asset: string): number | null {
+    const ages = Array.from(this.getSourceAges(asset).values());
+    return ages.length > 0 ? Math.min(...ages) : null;
+  }
+  
+  // Assets with no source tick within their max age (unpriced assets count as stale)
+  getStaleAssets(assets: string[], priceStaleMs: number): string[] {
+    return assets.filter(asset => {
+      const age = this.getAssetAge(asset);
+      return age === null || age > this.getMaxAgeMs(asset, priceStaleMs);
+    });
   }
   
   // Check if feeds are connected
   areFeedsConnected(): boolean {
-    // At least one feed must be connected
-    return this.binanceConnected || this.pythConnected;
+    // At least one feed must be connected (sources priced off other sources do not count)
+    return Array.from(this.sources.values())
+      .some(source => !source.onAggregatedPrice && source.getStatus().connected);
   }
   
   // Check if execution should be allowed based on price feed policy
-  // Policy: Binance OR Pyth must be live (fail-closed)
-  canExecuteLiquidation(priceStaleMs: number): { allowed: boolean; reason?: string } {
-    const now = Date.now();
-    
-    // Check if Binance is live (connected and not stale)
-    const binanceLive = this.binanceConnected && 
-                        this.lastBinanceUpdate > 0 && 
-                        (now - this.lastBinanceUpdate <= priceStaleMs);
-    
-    // Check if Pyth is live (connected and not stale)
-    const pythLive = this.pythConnected && 
-                     this.lastPythUpdate > 0 && 
-                     (now - this.lastPythUpdate <= priceStaleMs);
-    
-    // At least one feed must be live
-    if (binanceLive || pythLive) {
+  // Policy: every asset of the borrower must have a live source tick (fail-closed)
+  canExecuteLiquidation(priceStaleMs: number, assets: string[]): { allowed: boolean; reason?: string } {
+    const stale = this.getStaleAssets(assets, priceStaleMs);
+    if (stale.length === 0) {
       return { allowed: true };
     }
     
-    // Both feeds are down or stale - fail closed
+    const ages = stale.map(asset => {
+      const age = this.getAssetAge(asset);
+      return `${asset}: ${age === null ? 'no price' : `${age}ms > ${this.getMaxAgeMs(asset, priceStaleMs)}ms`}`;
+    });
     return {
       allowed: false,
-      reason: `Both price feeds are stale or disconnected. Binance: ${binanceLive ? 'live' : 'stale/down'}, Pyth: ${pythLive ? 'live' : 'stale/down'}`
+      reason: `Prices stale or missing for borrower assets. ${ages.join(', ')}`
     };
   }
   
-  // Get detailed feed status for each source
+  // Get detailed feed status for each source and asset
   getFeedStatus(priceStaleMs: number): {
-    binance: { connected: boolean; live: boolean; ageMs: number };
-    pyth: { connected: boolean; live: boolean; ageMs: number };
+    sources: Record<string, { connected: boolean; live: boolean; ageMs: number; weight: number; priceCount: number }>;
+    assets: Record<string, { ageMs: number; maxAgeMs: number; live: boolean; sources: Record<string, number> }>;
   } {
     const now = Date.now();
     
-    const binanceAge = this.lastBinanceUpdate > 0 ? now - this.lastBinanceUpdate : -1;
-    const binanceLive = this.binanceConnected && binanceAge >= 0 && binanceAge <= priceStaleMs;
+    const sources: Record<string, { connected: boolean; live: boolean; ageMs: number; weight: number; priceCount: number }> = {};
+    for (const [name, source] of this.sources) {
+      const status = source.getStatus();
+      const ageMs = status.lastPriceAt > 0 ? now - status.lastPriceAt : -1;
+      sources[name] = {
+        connected: status.connected,
+        live: status.connected && ageMs >= 0 && ageMs <= priceStaleMs,
+        ageMs,
+        weight: this.getSourceWeight(name),
+        priceCount: status.priceCount
+      };
+    }
     
-    const pythAge = this.lastPythUpdate > 0 ? now - this.lastPythUpdate : -1;
-    const pythLive = this.pythConnected && pythAge >= 0 && pythAge <= priceStaleMs;
+    const assets: Record<string, { ageMs: number; maxAgeMs: number; live: boolean; sources: Record<string, number> }> = {};
+    for (const asset of this.sourcePrices.keys()) {
+      const ageMs = this.getAssetAge(asset) ?? -1;
+      const maxAgeMs = this.getMaxAgeMs(asset, priceStaleMs);
+      assets[asset] = {
+        ageMs,
+        maxAgeMs,
+        live: ageMs >= 0 && ageMs <= maxAgeMs,
+        sources: Object.fromEntries(this.getSourceAges(asset))
+      };
+    }
     
-    return {
-      binance: {
-        connected: this.binanceConnected,
-        live: binanceLive,
-        ageMs: binanceAge
-      },
-      pyth: {
-        connected: this.pythConnected,
-        live: pythLive,
-        ageMs: pythAge
-      }
-    };
-  }
-  
-  // Get price staleness info (kept for backward compatibility)
-  getStalenessInfo(): {
-    binanceAge: number;
-    pythAge: number;
-    binanceConnected: boolean;
-    pythConnected: boolean;
-  } {
-    const now = Date.now();
-    return {
-      binanceAge: this.lastBinanceUpdate > 0 ? now - this.lastBinanceUpdate : -1,
-      pythAge: this.lastPythUpdate > 0 ? now - this.lastPythUpdate : -1,
-      binanceConnected: this.binanceConnected,
-      pythConnected: this.pythConnected
-    };
+    return { sources, assets };
   }
 }
 
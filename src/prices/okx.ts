@@ -0,0 +1,56 @@
+import WebSocket from 'ws';
+import logger from '../logging/logger';
+import { PriceSourceName } from './source';
+import { ExchangePriceFeed, ExchangeTicker } from './exchange';
+
+// OKX closes connections with no traffic for 30s; a text 'ping' is answered with 'pong'
+const PING_INTERVAL_MS = 20000;
+
+// Ticker prices from one OKX v5 public message
+// {
+//   "arg": { "channel": "tickers", "instId": "ETH-USDT" },
+//   "data": [{ "instId": "ETH-USDT", "last": "2450.12", "ts": "1712345678901", ... }]
+// }
+export function parseOkxTickers(message: any): ExchangeTicker[] {
+  if (message?.arg?.channel !== 'tickers' || !Array.isArray(message.data)) return [];
+
+  const tickers: ExchangeTicker[] = [];
+  for (const ticker of message.data) {
+    const price = parseFloat(ticker.last);
+    const ts = parseInt(ticker.ts, 10);
+    if (!ticker.instId || isNaN(price) || price <= 0) continue;
+    tickers.push({ symbol: ticker.instId, price, timestamp: isNaN(ts) ? Date.now() : ts });
+  }
+  return tickers;
+}
+
+// OKX price feed connector (v5 public tickers channel)
+export class OkxPriceFeed extends ExchangePriceFeed {
+  readonly name: PriceSourceName = 'okx';
+
+  // symbolMap: asset -> instrument id (OKX_SYMBOL_MAP)
+  constructor(wsUrl: string, symbolMap: Map<string, string>) {
+    super('OKX', wsUrl, symbolMap, PING_INTERVAL_MS);
+  }
+
+  protected subscribe(ws: WebSocket): void {
+    const args = this.getSymbols().map(instId => ({ channel: 'tickers', instId }));
+    ws.send(JSON.stringify({ op: 'subscribe', args }));
+    logger.info('Subscribed to OKX tickers', { count: args.length });
+  }
+
+  protected ping(ws: WebSocket): void {
+    ws.send('ping');
+  }
+
+  protected parseMessage(text: string): ExchangeTicker[] {
+    if (text === 'pong') return [];
+
+    const message = JSON.parse(text);
+    if (message?.event === 'error') {
+      logger.error('OKX subscription error', { code: message.code, msg: message.msg });
+      return [];
+    }
+    return parseOkxTickers(message);
+  }
+}
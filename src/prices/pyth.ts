@@ -3,14 +3,17 @@ import { EventEmitter } from 'events';
 import { getConfig } from '../config/env';
 import logger from '../logging/logger';
 import { PriceData } from '../hf/calc';
+import { PriceSource, PriceSourceName, PriceSourceStatus } from './source';
 
 // Pyth price feed connector
-export class PythPriceFeed extends EventEmitter {
+export class PythPriceFeed extends EventEmitter implements PriceSource {
+  readonly name: PriceSourceName = 'pyth';
   private ws?: WebSocket;
   private feedIds: string[];
   private reconnectInterval: NodeJS.Timeout | null = null;
   private isConnected: boolean = false;
   private lastPrices: Map<string, PriceData> = new Map();
+  private lastPriceAt: number = 0;
   
   constructor(feedIds: string[]) {
     super();
@@ -99,12 +102,13 @@ export class PythPriceFeed extends EventEmitter {
       
       if (!feedId || !price) continue;
       
-      // Parse price and expo
-      const priceValue = parseFloat(price.price);
+      // Parse price, confidence and expo
       const expo = parseInt(price.expo);
-      const priceUsd = priceValue * Math.pow(10, expo);
+      const scale = Math.pow(10, expo);
+      const priceUsd = parseFloat(price.price) * scale;
+      const confUsd = parseFloat(price.conf) * scale;
       
-      if (isNaN(priceUsd)) continue;
+      if (isNaN(priceUsd) || priceUsd <= 0) continue;
       
       // Map feed ID to asset
       const config = getConfig();
@@ -122,14 +126,36 @@ export class PythPriceFeed extends EventEmitter {
         continue;
       }
       
+      // Reject ticks whose confidence band is too wide to trust (volatile or thin publishers)
+      const confBps = confUsd / priceUsd * 10000;
+      if (!isNaN(confBps) && confBps > config.pythMaxConfBps) {
+        logger.debug('Rejecting Pyth price with wide confidence', {
+          asset,
+          priceUsd,
+          confUsd,
+          confBps: confBps.toFixed(1),
+          maxConfBps: config.pythMaxConfBps
+        });
+        continue;
+      }
+      
+      const publishTime = parseInt(price.publish_time);
+      const ema = feed.ema_price;
+      const emaScale = ema ? Math.pow(10, parseInt(ema.expo)) : 0;
+      
       const priceData: PriceData = {
         asset,
         priceUsd,
-        timestamp: Date.now(),
-        source: 'pyth'
+        timestamp: isNaN(publishTime) ? Date.now() : publishTime * 1000,
+        source: 'pyth',
+        confUsd: isNaN(confUsd) ? undefined : confUsd,
+        publishTime: isNaN(publishTime) ? undefined : publishTime,
+        emaPriceUsd: ema ? parseFloat(ema.price) * emaScale : undefined,
+        emaConfUsd: ema ? parseFloat(ema.conf) * emaScale : undefined
       };
       
       this.lastPrices.set(asset, priceData);
+      this.lastPriceAt = Date.now();
       
       // Emit price update event
       this.emit('price', priceData);
@@ -172,4 +198,13 @@ export class PythPriceFeed extends EventEmitter {
   isActive(): boolean {
     return this.isConnected;
   }
+  
+  // Get connection status and price freshness
+  getStatus(): PriceSourceStatus {
+    return {
+      connected: this.isConnected,
+      lastPriceAt: this.lastPriceAt,
+      priceCount: this.lastPrices.size
+    };
+  }
 }
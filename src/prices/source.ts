@@ -0,0 +1,30 @@
+import { EventEmitter } from 'events';
+import { PriceData } from '../hf/calc';
+
+// Price sources the aggregator can run (PRICE_SOURCES)
+export const PRICE_SOURCE_NAMES = ['binance', 'pyth', 'coinbase', 'okx', 'bybit', 'derived'] as const;
+export type PriceSourceName = typeof PRICE_SOURCE_NAMES[number];
+
+export function isPriceSourceName(name: string): name is PriceSourceName {
+  return (PRICE_SOURCE_NAMES as readonly string[]).includes(name);
+}
+
+// Connection state of one price source
+export interface PriceSourceStatus {
+  connected: boolean;
+  lastPriceAt: number; // Local receive time of the latest emitted price (0 = none yet)
+  priceCount: number; // Assets with a price
+}
+
+// Price source managed by the PriceAggregator
+// Events: 'price' (PriceData), 'connected', 'disconnected', 'error' (Error)
+export interface PriceSource extends EventEmitter {
+  readonly name: PriceSourceName;
+  connect(): void;
+  disconnect(): void;
+  getStatus(): PriceSourceStatus;
+  getLastPrices(): Map<string, PriceData>;
+  // Sources priced off other sources (e.g. derived LSTs) receive every aggregated price;
+  // they do not count as a live feed for the fail-closed checks
+  onAggregatedPrice?(price: PriceData): void;
+}
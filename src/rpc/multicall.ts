@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { getConfig } from '../config/env';
+import logger from '../logging/logger';
+
+// Multicall3 is deployed at the same address on every EVM chain, including Base
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) external payable returns (tuple(bool success, bytes returnData)[] returnData)'
+];
+
+// Default chunk size when config is not loaded (tests, scripts)
+const DEFAULT_BATCH_SIZE = 500;
+
+// Read waiting to be sent in the next aggregate3 call
+interface PendingCall {
+  target: string;
+  callData: string;
+  iface: ethers.Interface;
+  method: string;
+  resolve: (value: any) => void;
+}
+
+// Coalesces contract reads issued in the same tick into aggregate3 calls
+// Each read resolves to its decoded value, or null if that call reverted
+export class MulticallBatcher {
+  private multicallContract: ethers.Contract;
+  private queue: PendingCall[] = [];
+  private flushScheduled: boolean = false;
+
+  constructor(provider: ethers.Provider, address: string = MULTICALL3_ADDRESS) {
+    this.multicallContract = new ethers.Contract(address, MULTICALL3_ABI, provider);
+  }
+
+  // Queue a read; single return values are unwrapped, multiple are returned as a Result
+  call<T = any>(target: string, iface: ethers.Interface, method: string, args: any[] = []): Promise<T | null> {
+    const callData = iface.encodeFunctionData(method, args);
+
+    return new Promise<T | null>(resolve => {
+      this.queue.push({ target, callData, iface, method, resolve });
+
+      if (!this.flushScheduled) {
+        this.flushScheduled = true;
+        setImmediate(() => {
+          this.flush().catch(error => {
+            logger.error('Multicall flush failed', { error });
+          });
+        });
+      }
+    });
+  }
+
+  // Number of reads waiting for the next flush
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  // Send all queued reads, split into chunks of the configured batch size
+  private async flush(): Promise<void> {
+    this.flushScheduled = false;
+    const pending = this.queue.splice(0, this.queue.length);
+    if (pending.length === 0) return;
+
+    const batchSize = getBatchSize();
+    const chunks: PendingCall[][] = [];
+    for (let i = 0; i < pending.length; i += batchSize) {
+      chunks.push(pending.slice(i, i + batchSize));
+    }
+
+    await Promise.all(chunks.map(chunk => this.executeChunk(chunk)));
+  }
+
+  // Execute one aggregate3 call and resolve every read in it
+  private async executeChunk(chunk: PendingCall[]): Promise<void> {
+    try {
+      const results = await this.multicallContract.aggregate3.staticCall(
+        chunk.map(call => ({ target: call.target, allowFailure: true, callData: call.callData }))
+      );
+
+      for (let i = 0; i < chunk.length; i++) {
+        const call = chunk[i];
+        const { success, returnData } = results[i];
+
+        if (!success) {
+          logger.debug('Multicall read reverted', { target: call.target, method: call.method });
+          call.resolve(null);
+          continue;
+        }
+
+        try {
+          const decoded = call.iface.decodeFunctionResult(call.method, returnData);
+          call.resolve(decoded.length === 1 ? decoded[0] : decoded);
+        } catch (error) {
+          logger.debug('Failed to decode multicall result', { target: call.target, method: call.method, error });
+          call.resolve(null);
+        }
+      }
+    } catch (error) {
+      logger.error('Multicall batch failed', { size: chunk.length, error });
+      for (const call of chunk) {
+        call.resolve(null);
+      }
+    }
+  }
+}
+
+// Get batch size from config, falling back to the default when config is not loaded
+function getBatchSize(): number {
+  try {
+    return getConfig().multicallBatchSize;
+  } catch {
+    return DEFAULT_BATCH_SIZE;
+  }
+}
+
+// One batcher per provider so reads from all modules share the same queue
+const batchers: WeakMap<ethers.Provider, MulticallBatcher> = new WeakMap();
+
+// Get the shared batcher for a provider
+export function getMulticall(provider: ethers.Provider): MulticallBatcher {
+  let batcher = batchers.get(provider);
+  if (!batcher) {
+    batcher = new MulticallBatcher(provider);
+    batchers.set(provider, batcher);
+  }
+  return batcher;
+}
@@ -9,7 +9,8 @@ export enum BorrowerState {
 // Borrower balance information
 export interface BorrowerBalance {
   asset: string;
-  amount: bigint;
+  amount: bigint; // Current balance (projected from scaledAmount when available)
+  scaledAmount?: bigint; // aToken / variable debt token scaled balance
   valueUsd: number;
 }
 
@@ -21,8 +22,16 @@ export interface CachedTransaction {
   gasLimit: bigint;
   maxFeePerGas: bigint;
   maxPriorityFeePerGas: bigint;
-  expectedProfitUsd: number;
+  expectedProfitUsd: number; // After protocol fee, flash fee and swap loss, before gas
   estimatedGasUsd: number;
+  profitBreakdown?: {
+    grossBonusUsd: number;
+    protocolFeeUsd: number;
+    flashFeeUsd: number;
+    swapLossUsd: number;
+    gasUsd: number;
+    netProfitUsd: number;
+  };
   preparedAt: number;
 }
 
@@ -35,11 +44,21 @@ export interface Borrower {
   collateralBalances: BorrowerBalance[];
   debtBalances: BorrowerBalance[];
   
+  // Aave E-Mode category (0 = E-Mode disabled)
+  eModeCategory: number;
+  
   // Health factors
   predictedHF: number; // Using off-chain prices
   oracleHF: number; // Using on-chain oracle prices
   lastHFUpdate: number;
   
+  // Nearest liquidation trigger: price of one asset (others fixed) that brings HF to hfLiquidatable
+  liquidationDistance?: {
+    asset: string;
+    triggerPrice: number;
+    distance: number; // Relative price move needed, e.g. 0.05 = 5%
+  };
+  
   // Hydration guard: do not compute HF until balances are hydrated
   hydrated: boolean; // false for seeded borrowers until first event updates balances
   firstHydratedAt?: number; // Timestamp when first hydrated
@@ -66,6 +85,14 @@ export interface Borrower {
     gasUsd: number;
     oneInchData: string; // 1inch swap calldata
     minAmountOut: bigint; // Minimum amount out from swap (with slippage)
+    breakdown?: {
+      grossBonusUsd: number;
+      protocolFeeUsd: number;
+      flashFeeUsd: number;
+      swapLossUsd: number;
+      gasUsd: number;
+      netProfitUsd: number;
+    };
     error?: string;
   };
   
@@ -88,6 +115,7 @@ export function createBorrower(address: string, state: BorrowerState = BorrowerS
     state,
     collateralBalances: [],
     debtBalances: [],
+    eModeCategory: 0,
     predictedHF: Infinity,
     oracleHF: Infinity,
     lastHFUpdate: now,
@@ -137,6 +165,14 @@ export function determineState(hf: number, hfWatch: number, hfCritical: number,
   }
 }
 
+// Distinct assets a borrower holds as collateral or debt
+export function getBorrowerAssets(borrower: Borrower): string[] {
+  return Array.from(new Set([
+    ...borrower.collateralBalances.map(b => b.asset),
+    ...borrower.debtBalances.map(b => b.asset)
+  ]));
+}
+
 // Check if state transition is valid
 export function isValidStateTransition(_from: BorrowerState, _to: BorrowerState): boolean {
   // All transitions are valid (including reverse transitions)
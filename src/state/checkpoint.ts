@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../logging/logger';
+
+// On-disk record of event processing progress
+interface CheckpointData {
+  lastProcessedBlock: number;
+  updatedAt: number;
+}
+
+// Last block whose events were fully handled, persisted across restarts
+export class BlockCheckpoint {
+  private filePath: string;
+  private lastProcessedBlock: number | null = null;
+  private writing: boolean = false;
+  private pendingBlock: number | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // Read the checkpoint from disk (null if none was saved)
+  load(): number | null {
+    try {
+      if (!fs.existsSync(this.filePath)) return null;
+      const data: CheckpointData = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (!Number.isInteger(data.lastProcessedBlock) || data.lastProcessedBlock < 0) {
+        logger.warn('Ignoring invalid block checkpoint', { file: this.filePath });
+        return null;
+      }
+      this.lastProcessedBlock = data.lastProcessedBlock;
+      return this.lastProcessedBlock;
+    } catch (error) {
+      logger.error('Failed to read block checkpoint', { file: this.filePath, error });
+      return null;
+    }
+  }
+
+  // Last block saved or loaded in this process
+  get(): number | null {
+    return this.lastProcessedBlock;
+  }
+
+  // Record progress; only moves forward and never has two writes in flight
+  async save(blockNumber: number): Promise<void> {
+    if (this.lastProcessedBlock !== null && blockNumber <= this.lastProcessedBlock) return;
+    this.lastProcessedBlock = blockNumber;
+
+    if (this.writing) {
+      this.pendingBlock = blockNumber;
+      return;
+    }
+
+    this.writing = true;
+    try {
+      let next: number | null = blockNumber;
+      while (next !== null) {
+        this.pendingBlock = null;
+        await this.write(next);
+        next = this.pendingBlock;
+      }
+    } catch (error) {
+      logger.error('Failed to write block checkpoint', { file: this.filePath, error });
+    } finally {
+      this.writing = false;
+    }
+  }
+
+  // Write via a temp file so a crash never leaves a truncated checkpoint
+  private async write(blockNumber: number): Promise<void> {
+    const data: CheckpointData = { lastProcessedBlock: blockNumber, updatedAt: Date.now() };
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data));
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,236 @@
+// Entry in the near-liquidation queue
+export interface QueueEntry {
+  key: string; // Lowercased borrower address
+  hf: number; // Predicted HF (lower first)
+  profitUsd: number; // Expected profit (higher first on equal HF)
+}
+
+// Lower HF first, then higher expected profit
+function compareEntries(a: QueueEntry, b: QueueEntry): number {
+  if (a.hf !== b.hf) return a.hf - b.hf;
+  return b.profitUsd - a.profitUsd;
+}
+
+// Indexed binary min-heap: O(log n) upsert/remove by borrower key
+export class LiquidationQueue {
+  private heap: QueueEntry[] = [];
+  private positions: Map<string, number> = new Map();
+
+  // Insert or re-prioritize a borrower
+  upsert(key: string, hf: number, profitUsd: number): void {
+    const position = this.positions.get(key);
+    if (position === undefined) {
+      this.heap.push({ key, hf, profitUsd });
+      this.positions.set(key, this.heap.length - 1);
+      this.siftUp(this.heap.length - 1);
+      return;
+    }
+
+    this.heap[position] = { key, hf, profitUsd };
+    this.siftUp(position);
+    this.siftDown(this.positions.get(key)!);
+  }
+
+  // Remove a borrower (no-op if not queued)
+  remove(key: string): void {
+    const position = this.positions.get(key);
+    if (position === undefined) return;
+
+    const last = this.heap.pop()!;
+    this.positions.delete(key);
+    if (position === this.heap.length) return;
+
+    this.heap[position] = last;
+    this.positions.set(last.key, position);
+    this.siftUp(position);
+    this.siftDown(this.positions.get(last.key)!);
+  }
+
+  // Highest-priority entry without removing it
+  peek(): QueueEntry | undefined {
+    return this.heap[0];
+  }
+
+  has(key: string): boolean {
+    return this.positions.has(key);
+  }
+
+  size(): number {
+    return this.heap.length;
+  }
+
+  // Entries in priority order (the queue itself is left untouched)
+  toSortedArray(): QueueEntry[] {
+    return [...this.heap].sort(compareEntries);
+  }
+
+  // First `limit` entries in priority order, in O(limit log limit) without copying the heap
+  // The heap's children are always lower priority, so a frontier of candidate positions suffices
+  top(limit: number): QueueEntry[] {
+    const result: QueueEntry[] = [];
+    const frontier: number[] = this.heap.length > 0 ? [0] : [];
+    const before = (i: number, j: number): boolean => compareEntries(this.heap[frontier[i]], this.heap[frontier[j]]) < 0;
+
+    while (frontier.length > 0 && result.length < limit) {
+      // Pop the best candidate position off the frontier (itself a binary heap)
+      const position = frontier[0];
+      const last = frontier.pop()!;
+      if (frontier.length > 0) {
+        frontier[0] = last;
+        for (let i = 0; ;) {
+          const left = i * 2 + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < frontier.length && before(left, smallest)) smallest = left;
+          if (right < frontier.length && before(right, smallest)) smallest = right;
+          if (smallest === i) break;
+          [frontier[i], frontier[smallest]] = [frontier[smallest], frontier[i]];
+          i = smallest;
+        }
+      }
+      result.push(this.heap[position]);
+
+      for (const child of [position * 2 + 1, position * 2 + 2]) {
+        if (child >= this.heap.length) continue;
+        frontier.push(child);
+        for (let i = frontier.length - 1; i > 0;) {
+          const parent = (i - 1) >> 1;
+          if (!before(i, parent)) break;
+          [frontier[i], frontier[parent]] = [frontier[parent], frontier[i]];
+          i = parent;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  clear(): void {
+    this.heap = [];
+    this.positions.clear();
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (compareEntries(this.heap[index], this.heap[parent]) >= 0) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && compareEntries(this.heap[left], this.heap[smallest]) < 0) smallest = left;
+      if (right < length && compareEntries(this.heap[right], this.heap[smallest]) < 0) smallest = right;
+      if (smallest === index) break;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+    this.positions.set(this.heap[i].key, i);
+    this.positions.set(this.heap[j].key, j);
+  }
+}
+
+// Latencies from the LIQUIDATABLE transition, counted once per transition
+class TransitionLatencies {
+  count: number = 0;
+  private latencies: number[] = []; // Most recent latencies (ms)
+  private recorded: Map<string, number> = new Map(); // Borrower -> transition already recorded
+
+  record(borrower: string, liquidatableSince: number, now: number): void {
+    const key = borrower.toLowerCase();
+    if (this.recorded.get(key) === liquidatableSince) return;
+    this.recorded.set(key, liquidatableSince);
+    if (this.recorded.size > 1000) {
+      const oldest = this.recorded.keys().next().value;
+      if (oldest) this.recorded.delete(oldest);
+    }
+
+    this.count++;
+    this.latencies.push(now - liquidatableSince);
+    if (this.latencies.length > 100) {
+      this.latencies.shift();
+    }
+  }
+
+  // Median and max of the recent latencies (null before the first record)
+  getPercentiles(): { p50: number | null; max: number | null } {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    return {
+      p50: sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : null,
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : null
+    };
+  }
+
+  clear(): void {
+    this.count = 0;
+    this.latencies = [];
+    this.recorded.clear();
+  }
+}
+
+// Queue depth and state-change-to-broadcast (or dry-run) latency, reported with bot statistics
+class LiquidationMetrics {
+  private queueDepth: number = 0;
+  private maxQueueDepth: number = 0;
+  private executions: TransitionLatencies = new TransitionLatencies();
+  private dryRuns: TransitionLatencies = new TransitionLatencies();
+
+  // Record queue depth at the start of a block
+  recordQueueDepth(depth: number): void {
+    this.queueDepth = depth;
+    this.maxQueueDepth = Math.max(this.maxQueueDepth, depth);
+  }
+
+  // Record time from the LIQUIDATABLE transition to a sent liquidation tx (once per transition)
+  recordExecution(borrower: string, liquidatableSince: number, now: number = Date.now()): void {
+    this.executions.record(borrower, liquidatableSince, now);
+  }
+
+  // Record time from the LIQUIDATABLE transition to a dry-run decision (once per transition)
+  recordDryRun(borrower: string, liquidatableSince: number, now: number = Date.now()): void {
+    this.dryRuns.record(borrower, liquidatableSince, now);
+  }
+
+  // Summary for logging
+  getSummary(): {
+    queueDepth: number;
+    maxQueueDepth: number;
+    executions: number;
+    p50LatencyMs: number | null;
+    maxLatencyMs: number | null;
+    dryRuns: number;
+    p50DryRunLatencyMs: number | null;
+  } {
+    const executionLatency = this.executions.getPercentiles();
+    return {
+      queueDepth: this.queueDepth,
+      maxQueueDepth: this.maxQueueDepth,
+      executions: this.executions.count,
+      p50LatencyMs: executionLatency.p50,
+      maxLatencyMs: executionLatency.max,
+      dryRuns: this.dryRuns.count,
+      p50DryRunLatencyMs: this.dryRuns.getPercentiles().p50
+    };
+  }
+
+  // Reset metrics (for testing)
+  clear(): void {
+    this.queueDepth = 0;
+    this.maxQueueDepth = 0;
+    this.executions.clear();
+    this.dryRuns.clear();
+  }
+}
+
+// Export singleton instance
+export const liquidationMetrics = new LiquidationMetrics();
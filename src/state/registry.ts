@@ -1,11 +1,34 @@
-import { Borrower, BorrowerState, createBorrower, updateBorrowerState, determineState } from './borrower';
+import { Borrower, BorrowerBalance, BorrowerState, CachedTransaction, createBorrower, updateBorrowerState, determineState, getBorrowerAssets } from './borrower';
+import { LiquidationQueue } from './queue';
 import { getConfig } from '../config/env';
 import logger from '../logging/logger';
 
+// Add a borrower key to an asset index
+function addToIndex(index: Map<string, Set<string>>, asset: string, key: string): void {
+  let keys = index.get(asset);
+  if (!keys) {
+    keys = new Set();
+    index.set(asset, keys);
+  }
+  keys.add(key);
+}
+
+// Remove a borrower key from an asset index
+function removeFromIndex(index: Map<string, Set<string>>, asset: string, key: string): void {
+  const keys = index.get(asset);
+  if (!keys) return;
+  keys.delete(key);
+  if (keys.size === 0) index.delete(asset);
+}
+
 // Borrower registry
 class BorrowerRegistry {
   private borrowers: Map<string, Borrower> = new Map();
   private borrowerMutex: Map<string, boolean> = new Map();
+  private assetIndex: Map<string, Set<string>> = new Map(); // Asset symbol -> borrower keys
+  private indexedAssets: Map<string, string[]> = new Map(); // Borrower key -> assets in assetIndex
+  private criticalAssetIndex: Map<string, Set<string>> = new Map(); // Asset -> CRITICAL/LIQUIDATABLE borrower keys
+  private queue: LiquidationQueue = new LiquidationQueue(); // WATCH/CRITICAL/LIQUIDATABLE by priority
   
   // Get borrower by address
   getBorrower(address: string): Borrower | undefined {
@@ -33,10 +56,58 @@ class BorrowerRegistry {
     
     if (borrower) {
       this.borrowers.delete(key);
+      this.unindexBorrower(key);
+      this.queue.remove(key);
       logger.info('Borrower removed from registry', { address, lastState: borrower.state });
     }
   }
   
+  // Load borrowers from a snapshot (existing entries with the same address are replaced)
+  restoreBorrowers(borrowers: Borrower[]): void {
+    for (const borrower of borrowers) {
+      this.borrowers.set(borrower.address.toLowerCase(), borrower);
+      this.indexBorrower(borrower);
+      this.updatePriority(borrower);
+    }
+    logger.info('Borrowers restored from snapshot', { count: borrowers.length });
+  }
+  
+  // Replace a borrower's balances and keep the asset index in sync
+  updateBorrowerBalances(address: string, collateralBalances: BorrowerBalance[], debtBalances: BorrowerBalance[]): void {
+    const borrower = this.getBorrower(address);
+    if (!borrower) return;
+    
+    borrower.collateralBalances = collateralBalances;
+    borrower.debtBalances = debtBalances;
+    this.indexBorrower(borrower);
+  }
+  
+  // Get borrowers holding collateral or debt in an asset
+  getBorrowersByAsset(asset: string): Borrower[] {
+    const keys = this.assetIndex.get(asset);
+    if (!keys) return [];
+    
+    const borrowers: Borrower[] = [];
+    for (const key of keys) {
+      const borrower = this.borrowers.get(key);
+      if (borrower) borrowers.push(borrower);
+    }
+    return borrowers;
+  }
+  
+  // Get CRITICAL/LIQUIDATABLE borrowers holding collateral or debt in an asset
+  getCriticalBorrowersByAsset(asset: string): Borrower[] {
+    const keys = this.criticalAssetIndex.get(asset);
+    if (!keys) return [];
+    
+    const borrowers: Borrower[] = [];
+    for (const key of keys) {
+      const borrower = this.borrowers.get(key);
+      if (borrower) borrowers.push(borrower);
+    }
+    return borrowers;
+  }
+  
   // Get all borrowers
   getAllBorrowers(): Borrower[] {
     return Array.from(this.borrowers.values());
@@ -101,6 +172,7 @@ class BorrowerRegistry {
     // Update state if changed
     if (newState !== borrower.state) {
       updateBorrowerState(borrower, newState, predictedHF);
+      this.updateCriticalIndex(borrower);
       
       logger.info('Borrower state transition', {
         address: borrower.address,
@@ -111,6 +183,47 @@ class BorrowerRegistry {
         oracleHF: borrower.oracleHF.toFixed(4)
       });
     }
+    
+    this.updatePriority(borrower);
+  }
+  
+  // Keep WATCH/CRITICAL/LIQUIDATABLE borrowers in the priority queue
+  private updatePriority(borrower: Borrower): void {
+    const key = borrower.address.toLowerCase();
+    if (borrower.state === BorrowerState.SAFE) {
+      this.queue.remove(key);
+      return;
+    }
+    
+    const profitUsd = borrower.cachedTx?.expectedProfitUsd ?? borrower.flashResult?.expectedProfit ?? 0;
+    this.queue.upsert(key, borrower.predictedHF, profitUsd);
+  }
+  
+  // Up to `limit` near-liquidation borrowers, lowest HF (then highest expected profit) first
+  getBorrowersByPriority(limit: number): Borrower[] {
+    const borrowers: Borrower[] = [];
+    for (const entry of this.queue.top(limit)) {
+      const borrower = this.borrowers.get(entry.key);
+      if (borrower) borrowers.push(borrower);
+    }
+    return borrowers;
+  }
+  
+  // Number of near-liquidation borrowers in the queue
+  getQueueDepth(): number {
+    return this.queue.size();
+  }
+  
+  // Cache a prepared tx (and its flash result in flash loan mode) and re-rank the borrower by its profit
+  setCachedTx(address: string, cachedTx: CachedTransaction, preparedBlock: number, flashResult?: Borrower['flashResult']): void {
+    const borrower = this.getBorrower(address);
+    if (!borrower) return;
+    
+    borrower.cachedTx = cachedTx;
+    if (flashResult) borrower.flashResult = flashResult;
+    borrower.preparedBlockNumber = preparedBlock;
+    borrower.lastPreparedBlock = preparedBlock;
+    this.updatePriority(borrower);
   }
   
   // Invalidate cached tx for a borrower (e.g., on price change)
@@ -124,6 +237,7 @@ class BorrowerRegistry {
       borrower.cachedTx = undefined;
       borrower.flashResult = undefined;
       borrower.preparedBlockNumber = undefined;
+      this.updatePriority(borrower);
     }
   }
   
@@ -192,9 +306,51 @@ class BorrowerRegistry {
   clear(): void {
     this.borrowers.clear();
     this.borrowerMutex.clear();
+    this.assetIndex.clear();
+    this.indexedAssets.clear();
+    this.criticalAssetIndex.clear();
+    this.queue.clear();
     logger.info('Borrower registry cleared');
   }
   
+  // Index a borrower under every asset in its balances
+  private indexBorrower(borrower: Borrower): void {
+    const key = borrower.address.toLowerCase();
+    this.unindexBorrower(key);
+    
+    const assets = getBorrowerAssets(borrower);
+    for (const asset of assets) {
+      addToIndex(this.assetIndex, asset, key);
+    }
+    this.indexedAssets.set(key, assets);
+    this.updateCriticalIndex(borrower);
+  }
+  
+  // Remove a borrower from the asset indexes
+  private unindexBorrower(key: string): void {
+    const assets = this.indexedAssets.get(key);
+    if (!assets) return;
+    
+    for (const asset of assets) {
+      removeFromIndex(this.assetIndex, asset, key);
+      removeFromIndex(this.criticalAssetIndex, asset, key);
+    }
+    this.indexedAssets.delete(key);
+  }
+  
+  // Keep CRITICAL/LIQUIDATABLE borrowers in the critical asset index
+  private updateCriticalIndex(borrower: Borrower): void {
+    const key = borrower.address.toLowerCase();
+    const critical = borrower.state === BorrowerState.CRITICAL || borrower.state === BorrowerState.LIQUIDATABLE;
+    for (const asset of this.indexedAssets.get(key) ?? []) {
+      if (critical) {
+        addToIndex(this.criticalAssetIndex, asset, key);
+      } else {
+        removeFromIndex(this.criticalAssetIndex, asset, key);
+      }
+    }
+  }
+  
   // Borrower-level mutex methods
   
   // Try to acquire lock for borrower (returns true if acquired, false if already locked)
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Borrower, BorrowerBalance, BorrowerState } from './borrower';
+import logger from '../logging/logger';
+
+// Bump when the record layout changes; older snapshots are ignored
+const SNAPSHOT_VERSION = 1;
+
+// Registry contents restored on boot
+export interface RegistrySnapshot {
+  lastProcessedBlock: number; // Events up to this block are reflected in the borrowers
+  savedAt: number;
+  borrowers: Borrower[];
+}
+
+// First line of the file
+interface SnapshotHeader {
+  type: 'header';
+  version: number;
+  lastProcessedBlock: number;
+  savedAt: number;
+  borrowerCount: number;
+}
+
+// JSON-safe balance (bigints as decimal strings)
+interface BalanceRecord {
+  asset: string;
+  amount: string;
+  scaledAmount?: string;
+  valueUsd: number;
+}
+
+// One line per borrower; prepared transactions are block-specific and not persisted
+interface BorrowerRecord {
+  type: 'borrower';
+  address: string;
+  state: BorrowerState;
+  collateralBalances: BalanceRecord[];
+  debtBalances: BalanceRecord[];
+  eModeCategory: number;
+  predictedHF: number | null; // null = Infinity (no debt)
+  oracleHF: number | null;
+  lastHFUpdate: number;
+  hydrated: boolean;
+  firstHydratedAt?: number;
+  stateHistory: Array<{ state: BorrowerState; timestamp: number; hf: number | null }>;
+  lastSkipReason?: string;
+  lastPreparedBlock?: number;
+  lastExecutionAttemptAt?: number;
+  firstSeenAt: number;
+  lastUpdatedAt: number;
+  lastEventAt: number;
+}
+
+// JSON has no Infinity, store it as null
+function toFinite(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+function fromFinite(value: number | null): number {
+  return value === null ? Infinity : value;
+}
+
+function toBalanceRecord(balance: BorrowerBalance): BalanceRecord {
+  return {
+    asset: balance.asset,
+    amount: balance.amount.toString(),
+    scaledAmount: balance.scaledAmount?.toString(),
+    valueUsd: balance.valueUsd
+  };
+}
+
+function fromBalanceRecord(record: BalanceRecord): BorrowerBalance {
+  return {
+    asset: record.asset,
+    amount: BigInt(record.amount),
+    scaledAmount: record.scaledAmount !== undefined ? BigInt(record.scaledAmount) : undefined,
+    valueUsd: record.valueUsd
+  };
+}
+
+// Serialize a borrower to one JSON line
+export function serializeBorrower(borrower: Borrower): string {
+  const record: BorrowerRecord = {
+    type: 'borrower',
+    address: borrower.address,
+    state: borrower.state,
+    collateralBalances: borrower.collateralBalances.map(toBalanceRecord),
+    debtBalances: borrower.debtBalances.map(toBalanceRecord),
+    eModeCategory: borrower.eModeCategory,
+    predictedHF: toFinite(borrower.predictedHF),
+    oracleHF: toFinite(borrower.oracleHF),
+    lastHFUpdate: borrower.lastHFUpdate,
+    hydrated: borrower.hydrated,
+    firstHydratedAt: borrower.firstHydratedAt,
+    stateHistory: borrower.stateHistory.map(entry => ({ ...entry, hf: toFinite(entry.hf) })),
+    lastSkipReason: borrower.lastSkipReason,
+    lastPreparedBlock: borrower.lastPreparedBlock,
+    lastExecutionAttemptAt: borrower.lastExecutionAttemptAt,
+    firstSeenAt: borrower.firstSeenAt,
+    lastUpdatedAt: borrower.lastUpdatedAt,
+    lastEventAt: borrower.lastEventAt
+  };
+  return JSON.stringify(record);
+}
+
+// Parse a borrower line written by serializeBorrower
+export function deserializeBorrower(line: string): Borrower {
+  const record: BorrowerRecord = JSON.parse(line);
+  if (record.type !== 'borrower') {
+    throw new Error(`Unexpected snapshot record type: ${record.type}`);
+  }
+
+  return {
+    address: record.address,
+    state: record.state,
+    collateralBalances: record.collateralBalances.map(fromBalanceRecord),
+    debtBalances: record.debtBalances.map(fromBalanceRecord),
+    eModeCategory: record.eModeCategory,
+    predictedHF: fromFinite(record.predictedHF),
+    oracleHF: fromFinite(record.oracleHF),
+    lastHFUpdate: record.lastHFUpdate,
+    hydrated: record.hydrated,
+    firstHydratedAt: record.firstHydratedAt,
+    stateHistory: record.stateHistory.map(entry => ({ ...entry, hf: fromFinite(entry.hf) })),
+    lastSkipReason: record.lastSkipReason,
+    lastPreparedBlock: record.lastPreparedBlock,
+    lastExecutionAttemptAt: record.lastExecutionAttemptAt,
+    firstSeenAt: record.firstSeenAt,
+    lastUpdatedAt: record.lastUpdatedAt,
+    lastEventAt: record.lastEventAt
+  };
+}
+
+// JSON-lines snapshot of the borrower registry (header line, then one line per borrower)
+export class SnapshotStore {
+  private filePath: string;
+  private saving: boolean = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  // Write a full snapshot via a temp file; skipped if a previous save is still running
+  async save(borrowers: Borrower[], lastProcessedBlock: number): Promise<boolean> {
+    if (this.saving) return false;
+    this.saving = true;
+
+    try {
+      const header: SnapshotHeader = {
+        type: 'header',
+        version: SNAPSHOT_VERSION,
+        lastProcessedBlock,
+        savedAt: Date.now(),
+        borrowerCount: borrowers.length
+      };
+
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+      const stream = fs.createWriteStream(tmpPath);
+      const finished = new Promise<void>((resolve, reject) => {
+        stream.on('finish', resolve);
+        stream.on('error', reject);
+      });
+      stream.write(JSON.stringify(header) + '\n');
+      for (const borrower of borrowers) {
+        stream.write(serializeBorrower(borrower) + '\n');
+      }
+      stream.end();
+      await finished;
+
+      await fs.promises.rename(tmpPath, this.filePath);
+      logger.debug('Registry snapshot saved', { borrowers: borrowers.length, lastProcessedBlock });
+      return true;
+    } catch (error) {
+      logger.error('Failed to save registry snapshot', { file: this.filePath, error });
+      return false;
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  // Read the snapshot (null if missing, from another version or incomplete)
+  load(): RegistrySnapshot | null {
+    try {
+      if (!fs.existsSync(this.filePath)) return null;
+
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.length > 0);
+      if (lines.length === 0) return null;
+
+      const header: SnapshotHeader = JSON.parse(lines[0]);
+      if (header.type !== 'header' || header.version !== SNAPSHOT_VERSION) {
+        logger.warn('Ignoring registry snapshot with unknown format', { file: this.filePath, version: header.version });
+        return null;
+      }
+
+      const borrowers = lines.slice(1).map(deserializeBorrower);
+      if (borrowers.length !== header.borrowerCount) {
+        logger.warn('Ignoring incomplete registry snapshot', {
+          file: this.filePath,
+          expected: header.borrowerCount,
+          found: borrowers.length
+        });
+        return null;
+      }
+
+      return {
+        lastProcessedBlock: header.lastProcessedBlock,
+        savedAt: header.savedAt,
+        borrowers
+      };
+    } catch (error) {
+      logger.error('Failed to read registry snapshot', { file: this.filePath, error });
+      return null;
+    }
+  }
+}
@@ -8,6 +8,9 @@ export interface TokenCatalog {
   [symbol: string]: string;
 }
 
+// Runtime catalog: seeded from base.json, extended by reserve discovery
+const catalog: TokenCatalog = { ...(tokenCatalog as TokenCatalog) };
+
 // Standard token decimals for Base network
 // Used for HF calculations when async lookups are not possible
 export const TOKEN_DECIMALS: Record<string, number> = {
@@ -29,7 +32,7 @@ export function getTokenDecimalsSync(symbol: string): number {
 // Get token address from catalog by symbol
 export function getTokenAddress(symbol: string): string {
   // First check the token catalog
-  const address = (tokenCatalog as TokenCatalog)[symbol];
+  const address = catalog[symbol];
   if (address) {
     return address;
   }
@@ -74,12 +77,11 @@ export async function getTokenDecimalsByAddress(
 
 // Get all token addresses from catalog
 export function getAllTokenAddresses(): Record<string, string> {
-  return tokenCatalog as TokenCatalog;
+  return catalog;
 }
 
 // Get token symbol by address (reverse lookup)
 export function getTokenSymbol(address: string): string | undefined {
-  const catalog = tokenCatalog as TokenCatalog;
   for (const [symbol, addr] of Object.entries(catalog)) {
     if (addr.toLowerCase() === address.toLowerCase()) {
       return symbol;
@@ -90,5 +92,11 @@ export function getTokenSymbol(address: string): string | undefined {
 
 // Check if symbol exists in catalog
 export function hasToken(symbol: string): boolean {
-  return symbol in (tokenCatalog as TokenCatalog);
+  return symbol in catalog;
+}
+
+// Register a token discovered on-chain (symbol -> address, decimals)
+export function registerToken(symbol: string, address: string, decimals: number): void {
+  catalog[symbol] = address;
+  TOKEN_DECIMALS[symbol] = decimals;
 }
@@ -0,0 +1,161 @@
+import { calculateUserAccountData, AccountReserveInput } from '../src/hf/account';
+import { calculateHealthFactor, calculateHealthFactorWad, PriceData } from '../src/hf/calc';
+import { MAX_UINT256, WAD, percentMul, rayMul, wadDiv, wadMul } from '../src/hf/math';
+import { BorrowerBalance } from '../src/state/borrower';
+
+// Fixtures: inputs as read on-chain (balances, oracle prices, reserve config) and the
+// values getUserAccountData returns for them, computed with GenericLogic's integer math
+interface AccountFixture {
+  name: string;
+  reserves: AccountReserveInput[];
+  expected: {
+    totalCollateralBase: bigint;
+    totalDebtBase: bigint;
+    currentLiquidationThreshold: bigint;
+    ltv: bigint;
+    healthFactor: bigint;
+  };
+}
+
+function reserve(params: Partial<AccountReserveInput> & { asset: string; decimals: number; priceBase: bigint }): AccountReserveInput {
+  return {
+    collateralBalance: 0n,
+    debtBalance: 0n,
+    usageAsCollateralEnabled: true,
+    ltv: 0n,
+    liquidationThreshold: 0n,
+    ...params
+  };
+}
+
+const FIXTURES: AccountFixture[] = [
+  {
+    name: 'WETH collateral, USDC debt',
+    reserves: [
+      reserve({ asset: 'WETH', decimals: 18, priceBase: 341256781234n, collateralBalance: 10123456789012345678n, ltv: 8000n, liquidationThreshold: 8300n }),
+      reserve({ asset: 'USDC', decimals: 6, priceBase: 99993210n, debtBalance: 27500123456n })
+    ],
+    expected: {
+      totalCollateralBase: 3454698278779n,
+      totalDebtBase: 2749825619761n,
+      currentLiquidationThreshold: 8300n,
+      ltv: 8000n,
+      healthFactor: 1042756875483696633n
+    }
+  },
+  {
+    name: 'WETH + cbBTC collateral, WETH + USDC debt',
+    reserves: [
+      reserve({ asset: 'WETH', decimals: 18, priceBase: 341256781234n, collateralBalance: 5500000000000000000n, debtBalance: 1250000000000000000n, ltv: 8000n, liquidationThreshold: 8300n }),
+      reserve({ asset: 'cbBTC', decimals: 8, priceBase: 9712345678901n, collateralBalance: 37123456n, ltv: 7300n, liquidationThreshold: 7800n }),
+      reserve({ asset: 'USDC', decimals: 6, priceBase: 100000000n, debtBalance: 41234567890n })
+    ],
+    expected: {
+      totalCollateralBase: 5482470671461n,
+      totalDebtBase: 4550027765542n,
+      currentLiquidationThreshold: 7971n,
+      ltv: 7539n,
+      healthFactor: 960450704348929554n
+    }
+  },
+  {
+    name: 'Large position just below HF 1.0',
+    reserves: [
+      reserve({ asset: 'WETH', decimals: 18, priceBase: 250000000000n, collateralBalance: 1234567890123456789012n, ltv: 8000n, liquidationThreshold: 8300n }),
+      reserve({ asset: 'USDC', decimals: 6, priceBase: 100000000n, debtBalance: 2561728372007n })
+    ],
+    expected: {
+      totalCollateralBase: 308641972530864n,
+      totalDebtBase: 256172837200700n,
+      currentLiquidationThreshold: 8300n,
+      ltv: 8000n,
+      healthFactor: 999999999999676000n
+    }
+  },
+  {
+    name: 'Large position just above HF 1.0',
+    reserves: [
+      reserve({ asset: 'WETH', decimals: 18, priceBase: 250000000000n, collateralBalance: 1234567890123456789012n, ltv: 8000n, liquidationThreshold: 8300n }),
+      reserve({ asset: 'USDC', decimals: 6, priceBase: 100000000n, debtBalance: 2561728372006n })
+    ],
+    expected: {
+      totalCollateralBase: 308641972530864n,
+      totalDebtBase: 256172837200600n,
+      currentLiquidationThreshold: 8300n,
+      ltv: 8000n,
+      healthFactor: 1000000000000066361n
+    }
+  }
+];
+
+describe('Exact Account Data Calculation', () => {
+  describe('math helpers', () => {
+    it('should round half up like WadRayMath and PercentageMath', () => {
+      expect(wadMul(WAD / 2n, 3n)).toBe(2n); // 1.5 -> 2
+      expect(wadDiv(1n, 3n)).toBe(333333333333333333n);
+      expect(rayMul(10n ** 27n + 1n, 10n ** 27n)).toBe(10n ** 27n + 1n);
+      expect(percentMul(12345n, 8300n)).toBe(10246n); // 10246.35 -> 10246
+      expect(percentMul(15n, 5000n)).toBe(8n); // 7.5 -> 8
+    });
+  });
+
+  describe('calculateUserAccountData', () => {
+    it.each(FIXTURES)('should match getUserAccountData: $name', (fixture) => {
+      const accountData = calculateUserAccountData(fixture.reserves);
+
+      expect(accountData).toEqual(fixture.expected);
+    });
+
+    it('should return max uint256 HF when there is no debt', () => {
+      const accountData = calculateUserAccountData([FIXTURES[0].reserves[0]]);
+
+      expect(accountData.totalDebtBase).toBe(0n);
+      expect(accountData.healthFactor).toBe(MAX_UINT256);
+    });
+
+    it('should ignore collateral that is disabled or has zero liquidation threshold', () => {
+      const accountData = calculateUserAccountData([
+        reserve({ asset: 'WETH', decimals: 18, priceBase: 200000000000n, collateralBalance: WAD, liquidationThreshold: 8300n, usageAsCollateralEnabled: false }),
+        reserve({ asset: 'GHO', decimals: 18, priceBase: 100000000n, collateralBalance: WAD, liquidationThreshold: 0n }),
+        reserve({ asset: 'USDC', decimals: 6, priceBase: 100000000n, debtBalance: 1000000n })
+      ]);
+
+      expect(accountData.totalCollateralBase).toBe(0n);
+      expect(accountData.healthFactor).toBe(0n);
+    });
+
+    it('should separate liquidatable from non-liquidatable near HF 1.0', () => {
+      const below = calculateUserAccountData(FIXTURES[2].reserves);
+      const above = calculateUserAccountData(FIXTURES[3].reserves);
+
+      expect(below.healthFactor < WAD).toBe(true);
+      expect(above.healthFactor < WAD).toBe(false);
+    });
+  });
+
+  describe('calculateHealthFactor wrapper', () => {
+    const collateralBalances: BorrowerBalance[] = [
+      { asset: 'WETH', amount: 10123456789012345678n, valueUsd: 0 }
+    ];
+    const debtBalances: BorrowerBalance[] = [
+      { asset: 'USDC', amount: 27500123456n, valueUsd: 0 }
+    ];
+    const prices = new Map<string, PriceData>([
+      ['WETH', { asset: 'WETH', priceUsd: 3412.56781234, timestamp: Date.now(), source: 'oracle' }],
+      ['USDC', { asset: 'USDC', priceUsd: 0.9999321, timestamp: Date.now(), source: 'oracle' }]
+    ]);
+    const thresholds = new Map<string, number>([['WETH', 0.83]]);
+
+    it('should produce the exact wad HF from float prices', () => {
+      const hf = calculateHealthFactorWad(collateralBalances, debtBalances, prices, thresholds);
+
+      expect(hf).toBe(FIXTURES[0].expected.healthFactor);
+    });
+
+    it('should return the wad HF as a float', () => {
+      const hf = calculateHealthFactor(collateralBalances, debtBalances, prices, thresholds);
+
+      expect(hf).toBe(Number(FIXTURES[0].expected.healthFactor) / 1e18);
+    });
+  });
+});
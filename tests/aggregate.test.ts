@@ -0,0 +1,52 @@
+import { aggregateSourcePrices } from '../src/prices/aggregate';
+import { PriceData } from '../src/hf/calc';
+
+function tick(source: PriceData['source'], priceUsd: number): PriceData {
+  return { asset: 'WETH', priceUsd, timestamp: Date.now(), source };
+}
+
+describe('Price Source Aggregation', () => {
+  it('should use a single source as is', () => {
+    const aggregate = aggregateSourcePrices([tick('binance', 2000)], 100)!;
+
+    expect(aggregate.priceUsd).toBe(2000);
+    expect(aggregate.spreadBps).toBe(0);
+    expect(aggregate.trusted).toBe(true);
+  });
+
+  it('should take the median of the live sources', () => {
+    const two = aggregateSourcePrices([tick('binance', 2000), tick('pyth', 2002)], 100)!;
+    expect(two.priceUsd).toBe(2001);
+    expect(two.spreadBps).toBeCloseTo(9.995, 3);
+
+    // An outlier does not move the median of three
+    const three = aggregateSourcePrices([tick('binance', 2000), tick('pyth', 2002), tick('oracle', 2100)], 1000)!;
+    expect(three.priceUsd).toBe(2002);
+  });
+
+  it('should mark the aggregate untrusted when sources disagree beyond the limit', () => {
+    const aggregate = aggregateSourcePrices([tick('binance', 2000), tick('pyth', 2030)], 100)!;
+
+    // 30 / 2015 = 148.9 bps
+    expect(aggregate.spreadBps).toBeCloseTo(148.88, 2);
+    expect(aggregate.trusted).toBe(false);
+  });
+
+  it('should weight sources in the median', () => {
+    const prices = [tick('binance', 2000), tick('pyth', 2002), tick('okx', 2010)];
+
+    // Binance outweighs the other two
+    expect(aggregateSourcePrices(prices, 1000, new Map([['binance', 3]]))!.priceUsd).toBe(2000);
+
+    // Half the weight on each side of the gap between 2002 and 2010
+    expect(aggregateSourcePrices(prices, 1000, new Map([['okx', 2]]))!.priceUsd).toBe(2006);
+
+    // Unlisted sources default to 1
+    expect(aggregateSourcePrices(prices, 1000, new Map())!.priceUsd).toBe(2002);
+  });
+
+  it('should ignore unusable prices', () => {
+    expect(aggregateSourcePrices([tick('binance', 0)], 100)).toBeNull();
+    expect(aggregateSourcePrices([tick('binance', NaN), tick('pyth', 2000)], 100)!.sources).toHaveLength(1);
+  });
+});
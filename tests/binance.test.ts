@@ -0,0 +1,70 @@
+import { BinancePriceFeed, buildCombinedStreamUrl, parseStreamPrice } from '../src/prices/binance';
+import { getReconnectDelay } from '../src/prices/backoff';
+import { loadConfig } from '../src/config/env';
+import { PriceData } from '../src/hf/calc';
+
+describe('Binance Price Feed', () => {
+  describe('buildCombinedStreamUrl', () => {
+    it('should subscribe every symbol to the configured stream type', () => {
+      expect(buildCombinedStreamUrl('wss://stream.binance.com:9443/ws', ['ETHUSDT', 'btcusdt'], 'bookTicker'))
+        .toBe('wss://stream.binance.com:9443/stream?streams=ethusdt@bookTicker/btcusdt@bookTicker');
+      expect(buildCombinedStreamUrl('wss://stream.binance.com:9443', ['ethusdt']))
+        .toBe('wss://stream.binance.com:9443/stream?streams=ethusdt@trade');
+    });
+  });
+
+  describe('parseStreamPrice', () => {
+    it('should read trade and aggTrade price with event time', () => {
+      expect(parseStreamPrice({ p: '2450.12', T: 1712345678901 }, 'trade')).toEqual({ price: 2450.12, timestamp: 1712345678901 });
+      expect(parseStreamPrice({ p: '2450.5', T: 1712345678902 }, 'aggTrade')).toEqual({ price: 2450.5, timestamp: 1712345678902 });
+    });
+
+    it('should use the mid-price for bookTicker', () => {
+      const parsed = parseStreamPrice({ b: '2450.10', a: '2450.14' }, 'bookTicker')!;
+      expect(parsed.price).toBeCloseTo(2450.12, 8);
+    });
+
+    it('should reject payloads without a usable price', () => {
+      expect(parseStreamPrice({ T: 1 }, 'trade')).toBeNull();
+      expect(parseStreamPrice({ b: '2450.10', a: '0' }, 'bookTicker')).toBeNull();
+    });
+  });
+
+  describe('getReconnectDelay', () => {
+    it('should double the delay per attempt up to the maximum', () => {
+      const noJitter = () => 1;
+      expect(getReconnectDelay(0, 30000, noJitter)).toBe(1000);
+      expect(getReconnectDelay(3, 30000, noJitter)).toBe(8000);
+      expect(getReconnectDelay(10, 30000, noJitter)).toBe(30000);
+    });
+
+    it('should keep at least half the delay under jitter', () => {
+      expect(getReconnectDelay(3, 30000, () => 0)).toBe(4000);
+      expect(getReconnectDelay(3, 30000, () => 0.5)).toBe(6000);
+    });
+  });
+
+  describe('bookTicker messages', () => {
+    beforeAll(() => {
+      process.env.BINANCE_STREAM_TYPE = 'bookTicker';
+      loadConfig();
+    });
+
+    afterAll(() => {
+      delete process.env.BINANCE_STREAM_TYPE;
+    });
+
+    it('should keep emitting an unchanged mid so stable pairs stay live', () => {
+      const feed = new BinancePriceFeed(['USDCUSDT']);
+      const prices: PriceData[] = [];
+      feed.on('price', (price: PriceData) => prices.push(price));
+
+      const message = { stream: 'usdcusdt@bookTicker', data: { s: 'USDCUSDT', b: '0.9999', a: '1.0001' } };
+      (feed as any).handleCombinedMessage(message);
+      (feed as any).handleCombinedMessage(message);
+
+      expect(prices.map(p => [p.asset, p.priceUsd])).toEqual([['USDC', 1], ['USDC', 1]]);
+      expect(feed.getStatus().lastPriceAt).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { BybitPriceFeed, parseBybitTicker } from '../src/prices/bybit';
+import { PriceData } from '../src/hf/calc';
+import { MockWsServer } from './helpers/mockWsServer';
+
+describe('Bybit Price Feed', () => {
+  const server = new MockWsServer();
+  let feed: BybitPriceFeed | undefined;
+
+  beforeEach(() => server.start());
+
+  afterEach(() => {
+    feed?.disconnect();
+    feed = undefined;
+    return server.stop();
+  });
+
+  function ticker(symbol: string, lastPrice: string): string {
+    return JSON.stringify({
+      topic: `tickers.${symbol}`,
+      ts: 1712345678901,
+      type: 'snapshot',
+      data: { symbol, lastPrice }
+    });
+  }
+
+  it('should parse ticker messages and ignore other topics', () => {
+    expect(parseBybitTicker(JSON.parse(ticker('ETHUSDT', '2450.12')))).toEqual({
+      symbol: 'ETHUSDT',
+      price: 2450.12,
+      timestamp: 1712345678901
+    });
+    expect(parseBybitTicker({ topic: 'orderbook.1.ETHUSDT', data: {} })).toBeNull();
+  });
+
+  it('should subscribe to the mapped symbols and emit prices', async () => {
+    feed = new BybitPriceFeed(server.url, new Map([['WETH', 'ETHUSDT'], ['USDC', 'USDCUSDT']]));
+    const connection = server.nextConnection();
+    feed.connect();
+
+    const { socket, messages: [subscription] } = await connection;
+    expect(subscription).toEqual({ op: 'subscribe', args: ['tickers.ETHUSDT', 'tickers.USDCUSDT'] });
+
+    const received = new Promise<PriceData>(resolve => feed!.once('price', resolve));
+    socket.send(JSON.stringify({ success: true, ret_msg: '', op: 'subscribe' }));
+    socket.send(ticker('BTCUSDT', '65000')); // Not mapped
+    socket.send(ticker('USDCUSDT', '1.0001'));
+
+    expect(await received).toEqual({
+      asset: 'USDC',
+      priceUsd: 1.0001,
+      timestamp: 1712345678901,
+      source: 'bybit'
+    });
+
+    const status = feed.getStatus();
+    expect(status.connected).toBe(true);
+    expect(status.priceCount).toBe(1);
+    expect(status.lastPriceAt).toBeGreaterThan(0);
+  });
+
+  it('should emit disconnected when the server drops the connection', async () => {
+    feed = new BybitPriceFeed(server.url, new Map([['WETH', 'ETHUSDT']]));
+    const connection = server.nextConnection();
+    feed.connect();
+    const { socket } = await connection;
+
+    const disconnected = new Promise(resolve => feed!.once('disconnected', resolve));
+    socket.terminate();
+    await disconnected;
+    expect(feed.isActive()).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import { ethers } from 'ethers';
+import { predictOracleUpdate, ChainlinkOracleWatcher, FeedModel } from '../src/prices/chainlink';
+import { oracleSources, OracleSource } from '../src/aave/sources';
+import { loadConfig } from '../src/config/env';
+
+// latestRoundData answers keyed by lowercased source (missing = reverted)
+const rounds: Map<string, { answer: bigint; updatedAt: bigint }> = new Map();
+jest.mock('../src/rpc/multicall', () => ({
+  getMulticall: () => ({
+    call: async (target: string) => rounds.get(target.toLowerCase()) ?? null
+  })
+}));
+
+// WETH feed: 0.5% deviation, 1h heartbeat, answered $2,000 at t=1,000
+function createFeed(overrides: Partial<FeedModel> = {}): FeedModel {
+  return {
+    asset: 'WETH',
+    source: '0x0000000000000000000000000000000000000001',
+    aggregator: '0x0000000000000000000000000000000000000002',
+    decimals: 8,
+    deviationBps: 50,
+    heartbeatSec: 3600,
+    answer: 2000,
+    updatedAt: 1000,
+    ...overrides
+  };
+}
+
+describe('Chainlink Oracle Update Prediction', () => {
+  it('should not predict an update within the deviation threshold', () => {
+    // 0.4% move
+    expect(predictOracleUpdate(createFeed(), 1992, 1100)).toBeNull();
+  });
+
+  it('should predict a deviation update once the threshold is reached', () => {
+    const prediction = predictOracleUpdate(createFeed(), 1989, 1100);
+
+    expect(prediction).not.toBeNull();
+    expect(prediction!.reason).toBe('deviation');
+    expect(prediction!.predictedPrice).toBe(1989);
+    expect(prediction!.deviationBps).toBeCloseTo(55, 5);
+    expect(prediction!.expectedAt).toBe(1100);
+  });
+
+  it('should predict a heartbeat update shortly before it is due', () => {
+    expect(predictOracleUpdate(createFeed(), 2001, 4500)).toBeNull();
+
+    const prediction = predictOracleUpdate(createFeed(), 2001, 4595);
+    expect(prediction!.reason).toBe('heartbeat');
+    expect(prediction!.expectedAt).toBe(4600);
+  });
+
+  it('should predict once per round unless the price moves another half threshold', () => {
+    const feed = createFeed({ lastPredictedPrice: 1989 });
+
+    // 0.1% further
+    expect(predictOracleUpdate(feed, 1987, 1100)).toBeNull();
+    // 0.3% further
+    expect(predictOracleUpdate(feed, 1983, 1100)!.predictedPrice).toBe(1983);
+  });
+
+  it('should not predict without an answer', () => {
+    expect(predictOracleUpdate(createFeed({ answer: 0 }), 1989, 1100)).toBeNull();
+  });
+
+  it('should apply one transmission to every asset sharing the aggregator', () => {
+    const aggregator = '0x0000000000000000000000000000000000000002';
+    const watcher = new ChainlinkOracleWatcher();
+    for (const asset of ['USDC', 'USDbC']) {
+      oracleSources.set({
+        asset,
+        source: '0x0000000000000000000000000000000000000001',
+        kind: 'chainlink',
+        feed: '0x0000000000000000000000000000000000000001',
+        aggregator,
+        decimals: 8,
+        description: 'USDC / USD',
+        heartbeatSec: 86400,
+        resolvedAt: 0
+      });
+      (watcher as any).feeds.set(asset, createFeed({ asset, answer: 1 }));
+    }
+    const updates: string[] = [];
+    watcher.on('oracleUpdate', (asset: string) => updates.push(asset));
+
+    // AnswerUpdated and NewTransmission of the same transaction
+    const log = { transactionHash: '0x01', blockNumber: 100 } as ethers.Log;
+    (watcher as any).handleAnswer(aggregator, 99_990_000n, 1100, log);
+    (watcher as any).handleAnswer(aggregator, 99_990_000n, 1100, log);
+
+    expect(updates).toEqual(['USDC', 'USDbC']);
+    expect(watcher.getOraclePrices().get('USDbC')).toBeCloseTo(0.9999, 8);
+    oracleSources.clear();
+  });
+});
+
+describe('Chainlink Oracle Source Changes', () => {
+  const OLD_AGGREGATOR = '0x0000000000000000000000000000000000000b01';
+  const NEW_AGGREGATOR = '0x0000000000000000000000000000000000000b02';
+  const SOURCE = '0x0000000000000000000000000000000000000b03';
+  const provider = {} as ethers.JsonRpcProvider;
+  let watcher: ChainlinkOracleWatcher;
+  let subscribed: string[];
+
+  function createSource(overrides: Partial<OracleSource> = {}): OracleSource {
+    return {
+      asset: 'WETH',
+      source: SOURCE,
+      kind: 'chainlink',
+      feed: SOURCE,
+      aggregator: NEW_AGGREGATOR,
+      decimals: 8,
+      description: 'ETH / USD',
+      heartbeatSec: 86400,
+      resolvedAt: 0,
+      ...overrides
+    };
+  }
+
+  // Subscription on the old aggregator (removal is observed through removeAllListeners)
+  function watchOldAggregator(): jest.Mock {
+    const removeAllListeners = jest.fn();
+    (watcher as any).feeds.set('WETH', createFeed({ aggregator: OLD_AGGREGATOR }));
+    (watcher as any).contracts.set(OLD_AGGREGATOR, { removeAllListeners });
+    return removeAllListeners;
+  }
+
+  beforeAll(() => {
+    loadConfig();
+  });
+
+  beforeEach(() => {
+    watcher = new ChainlinkOracleWatcher();
+    subscribed = [];
+    // Record subscriptions without polling an RPC
+    jest.spyOn(ethers.Contract.prototype, 'on').mockImplementation(async function (this: ethers.Contract) {
+      subscribed.push(this.target as string);
+      return this;
+    });
+    rounds.set(SOURCE.toLowerCase(), { answer: 210_000_000_000n, updatedAt: 2000n });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    oracleSources.clear();
+    rounds.clear();
+  });
+
+  it('should move the subscription to the new aggregator', async () => {
+    const removeOld = watchOldAggregator();
+    oracleSources.set(createSource());
+
+    await watcher.refreshAsset(provider, 'WETH');
+
+    expect(removeOld).toHaveBeenCalled();
+    expect(subscribed).toEqual([NEW_AGGREGATOR, NEW_AGGREGATOR]);
+    expect(watcher.getFeed('WETH')).toMatchObject({ aggregator: NEW_AGGREGATOR, answer: 2100, updatedAt: 2000 });
+  });
+
+  it('should stop watching an asset moved to a CAPO source', async () => {
+    const removeOld = watchOldAggregator();
+    oracleSources.set(createSource({ kind: 'capo' }));
+
+    await watcher.refreshAsset(provider, 'WETH');
+
+    expect(removeOld).toHaveBeenCalled();
+    expect(subscribed).toEqual([]);
+    expect(watcher.getFeed('WETH')).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BlockCheckpoint } from '../src/state/checkpoint';
+
+describe('Block Checkpoint', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return null when no checkpoint was saved', () => {
+    const checkpoint = new BlockCheckpoint(path.join(dir, 'checkpoint.json'));
+    expect(checkpoint.load()).toBeNull();
+  });
+
+  it('should persist the last processed block across instances', async () => {
+    const file = path.join(dir, 'nested', 'checkpoint.json');
+    await new BlockCheckpoint(file).save(1234);
+
+    expect(new BlockCheckpoint(file).load()).toBe(1234);
+  });
+
+  it('should never move backwards', async () => {
+    const file = path.join(dir, 'checkpoint.json');
+    const checkpoint = new BlockCheckpoint(file);
+    await checkpoint.save(200);
+    await checkpoint.save(150);
+
+    expect(checkpoint.get()).toBe(200);
+    expect(new BlockCheckpoint(file).load()).toBe(200);
+  });
+
+  it('should ignore a corrupt checkpoint file', () => {
+    const file = path.join(dir, 'checkpoint.json');
+    fs.writeFileSync(file, '{"lastProcessedBlock":');
+
+    expect(new BlockCheckpoint(file).load()).toBeNull();
+  });
+});
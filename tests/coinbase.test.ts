@@ -0,0 +1,78 @@
+import { CoinbasePriceFeed, parseCoinbaseTickers } from '../src/prices/coinbase';
+import { PriceData } from '../src/hf/calc';
+import { MockWsServer } from './helpers/mockWsServer';
+
+describe('Coinbase Price Feed', () => {
+  const server = new MockWsServer();
+  let feed: CoinbasePriceFeed | undefined;
+
+  beforeEach(() => server.start());
+
+  afterEach(() => {
+    feed?.disconnect();
+    feed = undefined;
+    return server.stop();
+  });
+
+  function ticker(productId: string, price: string): string {
+    return JSON.stringify({
+      channel: 'ticker',
+      timestamp: '2024-04-05T19:21:18.904Z',
+      events: [{ type: 'update', tickers: [{ type: 'ticker', product_id: productId, price }] }]
+    });
+  }
+
+  it('should parse ticker messages and ignore other channels', () => {
+    expect(parseCoinbaseTickers(JSON.parse(ticker('ETH-USD', '2450.12')))).toEqual([
+      { symbol: 'ETH-USD', price: 2450.12, timestamp: Date.parse('2024-04-05T19:21:18.904Z') }
+    ]);
+    expect(parseCoinbaseTickers({ channel: 'heartbeats', events: [] })).toEqual([]);
+  });
+
+  it('should subscribe to the mapped products and emit prices', async () => {
+    feed = new CoinbasePriceFeed(server.url, new Map([['WETH', 'ETH-USD']]));
+    const connection = server.nextConnection(2);
+    feed.connect();
+
+    const { socket, messages: subscriptions } = await connection;
+    expect(subscriptions).toEqual([
+      { type: 'subscribe', product_ids: ['ETH-USD'], channel: 'ticker' },
+      { type: 'subscribe', product_ids: ['ETH-USD'], channel: 'heartbeats' }
+    ]);
+    expect(feed.isActive()).toBe(true);
+
+    const received = new Promise<PriceData>(resolve => feed!.once('price', resolve));
+    socket.send(ticker('BTC-USD', '65000')); // Not mapped
+    socket.send(ticker('ETH-USD', '2450.12'));
+
+    expect(await received).toEqual({
+      asset: 'WETH',
+      priceUsd: 2450.12,
+      timestamp: Date.parse('2024-04-05T19:21:18.904Z'),
+      source: 'coinbase'
+    });
+
+    const status = feed.getStatus();
+    expect(status.connected).toBe(true);
+    expect(status.priceCount).toBe(1);
+    expect(status.lastPriceAt).toBeGreaterThan(0);
+    expect(feed.getLastPrices().size).toBe(1);
+  });
+
+  it('should reconnect and resubscribe after the server drops the connection', async () => {
+    feed = new CoinbasePriceFeed(server.url, new Map([['WETH', 'ETH-USD']]));
+    const first = server.nextConnection(2);
+    feed.connect();
+    const { socket } = await first;
+
+    const disconnected = new Promise(resolve => feed!.once('disconnected', resolve));
+    const second = server.nextConnection(2);
+    socket.terminate();
+
+    await disconnected;
+    expect(feed.isActive()).toBe(false);
+    const { messages: subscriptions } = await second;
+    expect(subscriptions[0].product_ids).toEqual(['ETH-USD']);
+    expect(feed.isActive()).toBe(true);
+  });
+});
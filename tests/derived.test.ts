@@ -0,0 +1,52 @@
+import { derivedPriceSource, getCappedRatio, ExchangeRate } from '../src/prices/derived';
+import { PriceData } from '../src/hf/calc';
+
+const WAD = 10n ** 18n;
+
+// wstETH at 1.2 ETH, snapshot 1.19 at t=1,000 growing at most 0.0001 ETH per second
+function createRate(overrides: Partial<ExchangeRate> = {}): ExchangeRate {
+  return {
+    asset: 'wstETH',
+    baseAsset: 'WETH',
+    ratio: 12n * WAD / 10n,
+    ratioDecimals: 18,
+    snapshotRatio: 119n * WAD / 100n,
+    snapshotTimestamp: 1000,
+    maxRatioGrowthPerSecond: WAD / 10000n,
+    updatedAt: Date.now(),
+    ...overrides
+  };
+}
+
+function wethPrice(priceUsd: number): PriceData {
+  return { asset: 'WETH', priceUsd, timestamp: 123, source: 'binance' };
+}
+
+describe('Derived LST Prices', () => {
+  afterEach(() => {
+    derivedPriceSource.clear();
+  });
+
+  it('should cap the exchange rate at the allowed growth since the snapshot', () => {
+    // 50s after the snapshot at most 1.19 + 0.005
+    expect(getCappedRatio(createRate(), 1050)).toBe(1195n * WAD / 1000n);
+    // 100s after the snapshot the cap (1.2) no longer binds
+    expect(getCappedRatio(createRate(), 1100)).toBe(12n * WAD / 10n);
+  });
+
+  it('should price LSTs as base price times the capped exchange rate', () => {
+    derivedPriceSource.set(createRate());
+
+    const [price] = derivedPriceSource.derive(wethPrice(2000), 2000);
+    expect(price.asset).toBe('wstETH');
+    expect(price.source).toBe('derived');
+    expect(price.priceUsd).toBeCloseTo(2400, 6);
+    expect(price.timestamp).toBe(123);
+  });
+
+  it('should only derive LSTs quoted in the updated asset', () => {
+    derivedPriceSource.set(createRate());
+
+    expect(derivedPriceSource.derive({ asset: 'USDC', priceUsd: 1, timestamp: 0, source: 'pyth' }, 2000)).toEqual([]);
+  });
+});
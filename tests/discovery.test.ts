@@ -0,0 +1,31 @@
+import { reserveDiscovery, filterTargetAssets } from '../src/aave/discovery';
+import { getTokenAddress, getTokenDecimalsSync, getTokenSymbol } from '../src/tokens';
+
+describe('Reserve Discovery', () => {
+  afterEach(() => {
+    reserveDiscovery.clear();
+  });
+
+  it('should register discovered reserves in the token catalog', () => {
+    reserveDiscovery.set({
+      symbol: 'LBTC',
+      address: '0xecAc9C5F704e954931349Da37F60E39f515c11c1',
+      decimals: 8,
+      id: 9,
+      aTokenAddress: '0x0000000000000000000000000000000000000001',
+      variableDebtTokenAddress: '0x0000000000000000000000000000000000000002',
+      stableDebtTokenAddress: '0x0000000000000000000000000000000000000000'
+    });
+
+    expect(getTokenAddress('LBTC')).toBe('0xecAc9C5F704e954931349Da37F60E39f515c11c1');
+    expect(getTokenDecimalsSync('LBTC')).toBe(8);
+    expect(getTokenSymbol('0xecac9c5f704e954931349da37f60e39f515c11c1')).toBe('LBTC');
+    expect(reserveDiscovery.getByAddress('0xECAC9C5F704E954931349DA37F60E39F515C11C1')?.symbol).toBe('LBTC');
+    expect(reserveDiscovery.getSymbols()).toEqual(['LBTC']);
+  });
+
+  it('should treat empty TARGET_* lists as no filter', () => {
+    expect(filterTargetAssets(['WETH', 'cbBTC'], [])).toEqual(['WETH', 'cbBTC']);
+    expect(filterTargetAssets(['WETH', 'cbBTC'], ['WETH', 'cbETH'])).toEqual(['WETH']);
+  });
+});
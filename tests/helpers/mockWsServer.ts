@@ -0,0 +1,38 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+
+// Local WebSocket server standing in for an exchange in connector tests
+export class MockWsServer {
+  private server?: WebSocketServer;
+  url: string = '';
+
+  start(): Promise<void> {
+    return new Promise(resolve => {
+      this.server = new WebSocketServer({ port: 0, host: '127.0.0.1' }, () => {
+        this.url = `ws://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  // Resolve with the server side of the next connection once it has sent `messageCount` JSON messages
+  nextConnection(messageCount: number = 1): Promise<{ socket: WebSocket; messages: any[] }> {
+    return new Promise(resolve => {
+      this.server!.once('connection', socket => {
+        const messages: any[] = [];
+        socket.on('message', data => {
+          messages.push(JSON.parse(data.toString()));
+          if (messages.length === messageCount) resolve({ socket, messages });
+        });
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) return resolve();
+      for (const client of this.server.clients) client.terminate();
+      this.server.close(() => resolve());
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { calculateHealthFactor, estimateLiquidation } from '../src/hf/calc';
+import { calculateHealthFactor, estimateLiquidation, applyExecutionCosts, getConservativePrice } from '../src/hf/calc';
 import { BorrowerBalance, createBorrower } from '../src/state/borrower';
 import { PriceData } from '../src/hf/calc';
 
@@ -118,6 +118,33 @@ describe('Health Factor Calculation', () => {
     });
   });
   
+  describe('conservative pricing', () => {
+    it('should value collateral at price - conf and debt at price + conf', () => {
+      // 10 WETH at $2000 ± $20, 10,000 USDC at $1 ± $0.01
+      const collateralBalances: BorrowerBalance[] = [
+        { asset: 'WETH', amount: BigInt(10 * 1e18), valueUsd: 0 }
+      ];
+      const debtBalances: BorrowerBalance[] = [
+        { asset: 'USDC', amount: BigInt(10000 * 1e6), valueUsd: 0 }
+      ];
+      const prices = new Map<string, PriceData>([
+        ['WETH', { asset: 'WETH', priceUsd: 2000, confUsd: 20, timestamp: Date.now(), source: 'pyth' }],
+        ['USDC', { asset: 'USDC', priceUsd: 1, confUsd: 0.01, timestamp: Date.now(), source: 'pyth' }]
+      ]);
+      
+      expect(calculateHealthFactor(collateralBalances, debtBalances, prices)).toBeCloseTo(1.65, 4);
+      // (10 * 1980 * 0.825) / (10000 * 1.01) = 1.6173
+      expect(calculateHealthFactor(collateralBalances, debtBalances, prices, undefined, 0, true)).toBeCloseTo(1.6173, 4);
+    });
+    
+    it('should use the plain price for sources without a confidence interval', () => {
+      const price: PriceData = { asset: 'WETH', priceUsd: 2000, timestamp: Date.now(), source: 'binance' };
+      
+      expect(getConservativePrice(price, 'collateral')).toBe(2000);
+      expect(getConservativePrice(price, 'debt')).toBe(2000);
+    });
+  });
+  
   describe('estimateLiquidation', () => {
     it('should estimate liquidation profit correctly', () => {
       // 10 WETH collateral at $2000 = $20,000
@@ -146,6 +173,29 @@ describe('Health Factor Calculation', () => {
       expect(estimate!.debtValueUsd).toBeCloseTo(5000, 0);
     });
     
+    it('should net out flash fee, swap loss and gas', () => {
+      const borrower = createBorrower('0x123');
+      borrower.collateralBalances = [
+        { asset: 'WETH', amount: BigInt(10 * 1e18), valueUsd: 0 }
+      ];
+      borrower.debtBalances = [
+        { asset: 'USDC', amount: BigInt(10000 * 1e6), valueUsd: 0 }
+      ];
+      
+      const prices = new Map<string, PriceData>([
+        ['WETH', { asset: 'WETH', priceUsd: 2000, timestamp: Date.now(), source: 'binance' }],
+        ['USDC', { asset: 'USDC', priceUsd: 1, timestamp: Date.now(), source: 'binance' }]
+      ]);
+      
+      const estimate = estimateLiquidation(borrower, prices, 'USDC', 'WETH');
+      const breakdown = applyExecutionCosts(estimate!, { flashFeeBps: 9, swapLossBps: 30, gasUsd: 2 });
+      
+      // Flash fee: 9 bps of $5,000; swap loss: 30 bps of $5,250
+      expect(breakdown.flashFeeUsd).toBeCloseTo(4.5, 6);
+      expect(breakdown.swapLossUsd).toBeCloseTo(15.75, 6);
+      expect(breakdown.netProfitUsd).toBeCloseTo(250 - 4.5 - 15.75 - 2, 6);
+    });
+    
     it('should return null for non-existent asset', () => {
       const borrower = createBorrower('0x123');
       borrower.collateralBalances = [
@@ -0,0 +1,44 @@
+import { decodeUserConfiguration, isBorrowing, isUsingAsCollateral } from '../src/aave/hydration';
+import { ReserveInfo } from '../src/aave/discovery';
+
+function reserve(symbol: string, id: number): ReserveInfo {
+  return {
+    symbol,
+    address: `0x${id.toString(16).padStart(40, '0')}`,
+    decimals: 18,
+    id,
+    aTokenAddress: '',
+    variableDebtTokenAddress: '',
+    stableDebtTokenAddress: ''
+  };
+}
+
+describe('User Configuration Hydration', () => {
+  const reserves = [reserve('WETH', 0), reserve('USDbC', 1), reserve('cbETH', 2), reserve('USDC', 3), reserve('cbBTC', 7)];
+
+  it('should read borrowing and collateral bits per reserve id', () => {
+    // WETH collateral (bit 1), USDC borrowed (bit 6), cbBTC collateral (bit 15)
+    const data = (1n << 1n) | (1n << 6n) | (1n << 15n);
+
+    expect(isUsingAsCollateral(data, 0)).toBe(true);
+    expect(isBorrowing(data, 0)).toBe(false);
+    expect(isBorrowing(data, 3)).toBe(true);
+    expect(isUsingAsCollateral(data, 7)).toBe(true);
+  });
+
+  it('should only select reserves enabled in the bitmap', () => {
+    const data = (1n << 1n) | (1n << 6n) | (1n << 15n);
+
+    const { collateral, borrowing } = decodeUserConfiguration(data, reserves);
+
+    expect(collateral.map(r => r.symbol)).toEqual(['WETH', 'cbBTC']);
+    expect(borrowing.map(r => r.symbol)).toEqual(['USDC']);
+  });
+
+  it('should return nothing for an empty configuration', () => {
+    const { collateral, borrowing } = decodeUserConfiguration(0n, reserves);
+
+    expect(collateral).toHaveLength(0);
+    expect(borrowing).toHaveLength(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { reserveIndexCache, getNormalizedDebt, getNormalizedIncome, ReserveIndexData } from '../src/aave/indices';
+import { calculateCompoundedInterest, calculateLinearInterest, RAY, SECONDS_PER_YEAR } from '../src/hf/math';
+import { createBorrower } from '../src/state/borrower';
+
+const USDC = 10n ** 6n;
+const T0 = 1_700_000_000n;
+
+// USDC reserve: 4% supply APR, 6% borrow APR, indices already above 1.0
+const USDC_INDICES: ReserveIndexData = {
+  asset: 'USDC',
+  liquidityIndex: (RAY * 102n) / 100n,
+  variableBorrowIndex: (RAY * 105n) / 100n,
+  currentLiquidityRate: (RAY * 4n) / 100n,
+  currentVariableBorrowRate: (RAY * 6n) / 100n,
+  lastUpdateTimestamp: T0
+};
+
+describe('Reserve Index Accrual', () => {
+  afterEach(() => {
+    reserveIndexCache.clear();
+  });
+
+  it('should accrue linear interest for supply', () => {
+    expect(calculateLinearInterest((RAY * 5n) / 100n, T0, T0 + SECONDS_PER_YEAR)).toBe((RAY * 105n) / 100n);
+    expect(calculateLinearInterest((RAY * 5n) / 100n, T0, T0)).toBe(RAY);
+  });
+
+  it('should approximate compounded interest like MathUtils', () => {
+    const factor = calculateCompoundedInterest(RAY / 10n, T0, T0 + SECONDS_PER_YEAR);
+
+    // Per-second binomial expansion, just below continuous compounding e^0.1 = 1.1051709
+    expect(Number(factor) / 1e27).toBeCloseTo(1.105162, 6);
+    expect(calculateCompoundedInterest(RAY / 10n, T0, T0)).toBe(RAY);
+  });
+
+  it('should return stored indices at lastUpdateTimestamp', () => {
+    expect(getNormalizedIncome(USDC_INDICES, T0)).toBe(USDC_INDICES.liquidityIndex);
+    expect(getNormalizedDebt(USDC_INDICES, T0)).toBe(USDC_INDICES.variableBorrowIndex);
+  });
+
+  it('should project scaled balances to current balances', () => {
+    reserveIndexCache.set(USDC_INDICES);
+    const balance = { asset: 'USDC', amount: 0n, scaledAmount: 1000n * USDC, valueUsd: 0 };
+
+    expect(reserveIndexCache.projectCollateral(balance, T0)).toBe(1020n * USDC);
+    expect(reserveIndexCache.projectDebt(balance, T0)).toBe(1050n * USDC);
+  });
+
+  it('should grow debt over time without any RPC', () => {
+    reserveIndexCache.set(USDC_INDICES);
+    const borrower = createBorrower('0x123');
+    borrower.debtBalances = [{ asset: 'USDC', amount: 1050n * USDC, scaledAmount: 1000n * USDC, valueUsd: 0 }];
+
+    reserveIndexCache.accrueBorrower(borrower, T0 + SECONDS_PER_YEAR / 2n);
+
+    // ~3% over half a year at 6% APR
+    const debt = Number(borrower.debtBalances[0].amount) / 1e6;
+    expect(debt).toBeGreaterThan(1050 * 1.03);
+    expect(debt).toBeLessThan(1050 * 1.031);
+  });
+
+  it('should leave balances without a scaled amount unchanged', () => {
+    reserveIndexCache.set(USDC_INDICES);
+    const borrower = createBorrower('0x123');
+    borrower.collateralBalances = [{ asset: 'USDC', amount: 500n * USDC, valueUsd: 0 }];
+
+    reserveIndexCache.accrueBorrower(borrower, T0 + SECONDS_PER_YEAR);
+
+    expect(borrower.collateralBalances[0].amount).toBe(500n * USDC);
+  });
+
+  it('should report whether stored indices or rates changed', () => {
+    expect(reserveIndexCache.set(USDC_INDICES)).toBe(true);
+    expect(reserveIndexCache.set({ ...USDC_INDICES })).toBe(false);
+    expect(reserveIndexCache.set({ ...USDC_INDICES, variableBorrowIndex: USDC_INDICES.variableBorrowIndex + 1n })).toBe(true);
+    expect(reserveIndexCache.set({ ...USDC_INDICES, currentLiquidityRate: 0n })).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { ethers } from 'ethers';
+import { MulticallBatcher, MULTICALL3_ABI } from '../src/rpc/multicall';
+
+const MULTICALL_INTERFACE = new ethers.Interface(MULTICALL3_ABI);
+const ERC20_INTERFACE = new ethers.Interface(['function balanceOf(address account) external view returns (uint256)']);
+
+const GOOD_TOKEN = '0x0000000000000000000000000000000000000001';
+const BAD_TOKEN = '0x0000000000000000000000000000000000000002';
+const USER = '0x00000000000000000000000000000000000000aa';
+
+// Fake provider answering aggregate3: GOOD_TOKEN returns 1000, BAD_TOKEN reverts
+function createProvider() {
+  const call = jest.fn(async (tx: { data: string }) => {
+    const [calls] = MULTICALL_INTERFACE.decodeFunctionData('aggregate3', tx.data);
+    const results = calls.map((c: any) => c.target.toLowerCase() === GOOD_TOKEN
+      ? { success: true, returnData: ERC20_INTERFACE.encodeFunctionResult('balanceOf', [1000n]) }
+      : { success: false, returnData: '0x' });
+    return MULTICALL_INTERFACE.encodeFunctionResult('aggregate3', [results]);
+  });
+  return { call, provider: null } as unknown as ethers.Provider & { call: jest.Mock };
+}
+
+describe('Multicall Batcher', () => {
+  it('should coalesce reads from the same tick into one aggregate3 call', async () => {
+    const provider = createProvider();
+    const batcher = new MulticallBatcher(provider);
+
+    const results = await Promise.all([
+      batcher.call<bigint>(GOOD_TOKEN, ERC20_INTERFACE, 'balanceOf', [USER]),
+      batcher.call<bigint>(GOOD_TOKEN, ERC20_INTERFACE, 'balanceOf', [USER]),
+      batcher.call<bigint>(GOOD_TOKEN, ERC20_INTERFACE, 'balanceOf', [USER])
+    ]);
+
+    expect(results).toEqual([1000n, 1000n, 1000n]);
+    expect(provider.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve failed reads to null without failing the batch', async () => {
+    const provider = createProvider();
+    const batcher = new MulticallBatcher(provider);
+
+    const [good, bad] = await Promise.all([
+      batcher.call<bigint>(GOOD_TOKEN, ERC20_INTERFACE, 'balanceOf', [USER]),
+      batcher.call<bigint>(BAD_TOKEN, ERC20_INTERFACE, 'balanceOf', [USER])
+    ]);
+
+    expect(good).toBe(1000n);
+    expect(bad).toBeNull();
+  });
+
+  it('should resolve every read to null when the aggregate call fails', async () => {
+    const provider = createProvider();
+    provider.call.mockRejectedValueOnce(new Error('rpc down'));
+    const batcher = new MulticallBatcher(provider);
+
+    const result = await batcher.call<bigint>(GOOD_TOKEN, ERC20_INTERFACE, 'balanceOf', [USER]);
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { OkxPriceFeed, parseOkxTickers } from '../src/prices/okx';
+import { PriceData } from '../src/hf/calc';
+import { MockWsServer } from './helpers/mockWsServer';
+
+describe('OKX Price Feed', () => {
+  const server = new MockWsServer();
+  let feed: OkxPriceFeed | undefined;
+
+  beforeEach(() => server.start());
+
+  afterEach(() => {
+    feed?.disconnect();
+    feed = undefined;
+    return server.stop();
+  });
+
+  function tickers(instId: string, last: string): string {
+    return JSON.stringify({
+      arg: { channel: 'tickers', instId },
+      data: [{ instType: 'SPOT', instId, last, ts: '1712345678901' }]
+    });
+  }
+
+  it('should parse ticker messages and ignore other channels', () => {
+    expect(parseOkxTickers(JSON.parse(tickers('ETH-USDT', '2450.12')))).toEqual([
+      { symbol: 'ETH-USDT', price: 2450.12, timestamp: 1712345678901 }
+    ]);
+    expect(parseOkxTickers({ event: 'subscribe', arg: { channel: 'tickers', instId: 'ETH-USDT' } })).toEqual([]);
+  });
+
+  it('should subscribe to the mapped instruments and emit prices', async () => {
+    feed = new OkxPriceFeed(server.url, new Map([['WETH', 'ETH-USDT'], ['USDC', 'USDC-USDT']]));
+    const connection = server.nextConnection();
+    feed.connect();
+
+    const { socket, messages: [subscription] } = await connection;
+    expect(subscription).toEqual({
+      op: 'subscribe',
+      args: [{ channel: 'tickers', instId: 'ETH-USDT' }, { channel: 'tickers', instId: 'USDC-USDT' }]
+    });
+
+    const received = new Promise<PriceData>(resolve => feed!.once('price', resolve));
+    socket.send('pong'); // Keepalive reply is not JSON
+    socket.send(JSON.stringify({ event: 'subscribe', arg: { channel: 'tickers', instId: 'ETH-USDT' } }));
+    socket.send(tickers('ETH-USDT', '2450.12'));
+
+    expect(await received).toEqual({
+      asset: 'WETH',
+      priceUsd: 2450.12,
+      timestamp: 1712345678901,
+      source: 'okx'
+    });
+  });
+
+  it('should emit disconnected when the server drops the connection', async () => {
+    feed = new OkxPriceFeed(server.url, new Map([['WETH', 'ETH-USDT']]));
+    const connection = server.nextConnection();
+    feed.connect();
+    const { socket } = await connection;
+
+    const disconnected = new Promise(resolve => feed!.once('disconnected', resolve));
+    socket.terminate();
+    await disconnected;
+    expect(feed.isActive()).toBe(false);
+  });
+});
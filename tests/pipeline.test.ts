@@ -0,0 +1,82 @@
+import { ethers } from 'ethers';
+import { EventPipeline, PipelineEvent } from '../src/aave/pipeline';
+
+// Fake provider serving block headers from a mutable map
+function createProvider(blocks: Map<number, { hash: string; parentHash: string }>) {
+  return {
+    getBlock: jest.fn(async (number: number) => blocks.get(number) ?? null)
+  } as unknown as ethers.Provider;
+}
+
+// Chain of blocks from..to with hashes tagged by fork name
+function chain(blocks: Map<number, { hash: string; parentHash: string }>, from: number, to: number, fork: string) {
+  for (let n = from; n <= to; n++) {
+    const parent = blocks.get(n - 1);
+    blocks.set(n, { hash: `${fork}-${n}`, parentHash: parent ? parent.hash : `${fork}-${n - 1}` });
+  }
+}
+
+function event(blockNumber: number, blockHash: string, users: string[], handler: jest.Mock): PipelineEvent {
+  const log = { blockNumber, blockHash, index: 0, transactionHash: `0x${blockNumber}`, removed: false } as unknown as ethers.Log;
+  return { name: 'Borrow', log, users, handler };
+}
+
+describe('Event Pipeline', () => {
+  it('should hold logs until they reach the confirmation depth', async () => {
+    const blocks = new Map();
+    chain(blocks, 1, 3, 'a');
+    const pipeline = new EventPipeline(createProvider(blocks), 2);
+    const handler = jest.fn(async () => undefined);
+
+    await pipeline.onBlock(1);
+    await pipeline.submit(event(1, 'a-1', ['0xuser'], handler));
+    await pipeline.onBlock(2);
+    expect(handler).not.toHaveBeenCalled();
+    expect(pipeline.getPendingCount()).toBe(1);
+
+    await pipeline.onBlock(3);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(pipeline.getPendingCount()).toBe(0);
+  });
+
+  it('should dispatch immediately with zero confirmations', async () => {
+    const pipeline = new EventPipeline(createProvider(new Map()), 0);
+    const handler = jest.fn(async () => undefined);
+
+    await pipeline.submit(event(1, 'a-1', ['0xuser'], handler));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop orphaned logs and report affected borrowers on parent-hash mismatch', async () => {
+    const blocks = new Map();
+    chain(blocks, 1, 2, 'a');
+    const pipeline = new EventPipeline(createProvider(blocks), 3);
+    const handler = jest.fn(async () => undefined);
+    const reorgs: string[][] = [];
+    pipeline.on('reorg', users => reorgs.push(users));
+
+    await pipeline.onBlock(1);
+    await pipeline.onBlock(2);
+    await pipeline.submit(event(2, 'a-2', ['0xghost'], handler));
+
+    // Block 2 is replaced and block 3 builds on the new fork
+    chain(blocks, 2, 3, 'b');
+    await pipeline.onBlock(3);
+
+    expect(reorgs).toEqual([['0xghost']]);
+    expect(pipeline.getPendingCount()).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should report borrowers of removed logs', async () => {
+    const pipeline = new EventPipeline(createProvider(new Map()), 0);
+    const reorgs: string[][] = [];
+    pipeline.on('reorg', users => reorgs.push(users));
+
+    const removed = event(5, 'a-5', ['0xuser'], jest.fn());
+    (removed.log as any).removed = true;
+    await pipeline.submit(removed);
+
+    expect(reorgs).toEqual([['0xuser']]);
+  });
+});
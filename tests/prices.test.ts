@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import { PriceAggregator } from '../src/prices';
+import { PriceSource, PriceSourceName, PriceSourceStatus } from '../src/prices/source';
+import { derivedPriceSource } from '../src/prices/derived';
+import { PriceData } from '../src/hf/calc';
+import { loadConfig } from '../src/config/env';
+
+// Source driven by the test instead of a WebSocket
+class FakeSource extends EventEmitter implements PriceSource {
+  constructor(readonly name: PriceSourceName) {
+    super();
+  }
+
+  connect(): void { /* no connection */ }
+  disconnect(): void { /* no connection */ }
+
+  getStatus(): PriceSourceStatus {
+    return { connected: true, lastPriceAt: 0, priceCount: 0 };
+  }
+
+  getLastPrices(): Map<string, PriceData> {
+    return new Map();
+  }
+
+  tick(asset: string, priceUsd: number): void {
+    this.emit('price', { asset, priceUsd, timestamp: Date.now(), source: this.name });
+  }
+}
+
+describe('Price Aggregator Staleness', () => {
+  let aggregator: PriceAggregator;
+  let binance: FakeSource;
+  let pyth: FakeSource;
+
+  beforeAll(() => {
+    process.env.PRICE_MAX_AGE_MAP = 'USDC:60000';
+    loadConfig();
+  });
+
+  afterAll(() => {
+    delete process.env.PRICE_MAX_AGE_MAP;
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    aggregator = new PriceAggregator();
+    binance = new FakeSource('binance');
+    pyth = new FakeSource('pyth');
+    aggregator.addSource(binance);
+    aggregator.addSource(pyth);
+  });
+
+  afterEach(() => {
+    aggregator.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('should report the age of each source per asset', () => {
+    binance.tick('WETH', 2000);
+    jest.advanceTimersByTime(3000);
+    pyth.tick('WETH', 2001);
+    jest.advanceTimersByTime(1000);
+
+    expect(aggregator.getSourceAges('WETH')).toEqual(new Map([['binance', 4000], ['pyth', 1000]]));
+    expect(aggregator.getAssetAge('WETH')).toBe(1000);
+    expect(aggregator.getSourceAges('USDC').size).toBe(0);
+    expect(aggregator.getAssetAge('USDC')).toBeNull();
+  });
+
+  it('should flag assets without a recent tick and unpriced assets as stale', () => {
+    binance.tick('WETH', 2000);
+    binance.tick('cbETH', 2100);
+    jest.advanceTimersByTime(4000);
+    pyth.tick('WETH', 2001);
+    jest.advanceTimersByTime(2000);
+
+    // WETH: pyth 2s old; cbETH: 6s old; DAI: never priced
+    expect(aggregator.getStaleAssets(['WETH', 'cbETH', 'DAI'], 5000)).toEqual(['cbETH', 'DAI']);
+  });
+
+  it('should apply PRICE_MAX_AGE_MAP overrides', () => {
+    binance.tick('USDC', 1);
+    binance.tick('WETH', 2000);
+    jest.advanceTimersByTime(30000);
+
+    expect(aggregator.getStaleAssets(['USDC', 'WETH'], 5000)).toEqual(['WETH']);
+    jest.advanceTimersByTime(30001);
+    expect(aggregator.getStaleAssets(['USDC'], 5000)).toEqual(['USDC']);
+  });
+
+  it('should gate execution on the assets of one borrower only', () => {
+    binance.tick('WETH', 2000);
+    binance.tick('USDC', 1);
+    binance.tick('cbETH', 2100);
+    jest.advanceTimersByTime(6000);
+    binance.tick('WETH', 2000);
+    binance.tick('USDC', 1);
+
+    // cbETH is stale, but only matters for borrowers holding it
+    expect(aggregator.canExecuteLiquidation(5000, ['WETH', 'USDC'])).toEqual({ allowed: true });
+
+    const gated = aggregator.canExecuteLiquidation(5000, ['WETH', 'cbETH', 'DAI']);
+    expect(gated.allowed).toBe(false);
+    expect(gated.reason).toContain('cbETH: 6000ms > 5000ms');
+    expect(gated.reason).toContain('DAI: no price');
+  });
+
+  it('should drop the ticks of a disconnected source', () => {
+    binance.tick('WETH', 2000);
+    pyth.tick('WETH', 2001);
+
+    binance.emit('disconnected');
+    expect(Array.from(aggregator.getSourceAges('WETH').keys())).toEqual(['pyth']);
+
+    pyth.emit('disconnected');
+    expect(aggregator.getStaleAssets(['WETH'], 5000)).toEqual(['WETH']);
+  });
+
+  it('should re-price derived LSTs from the aggregated base price', () => {
+    derivedPriceSource.set({
+      asset: 'wstETH',
+      baseAsset: 'WETH',
+      ratio: 12n * 10n ** 17n,
+      ratioDecimals: 18,
+      snapshotRatio: 12n * 10n ** 17n,
+      snapshotTimestamp: 0,
+      maxRatioGrowthPerSecond: 0n,
+      updatedAt: Date.now()
+    });
+    aggregator.addSource(derivedPriceSource);
+
+    binance.tick('WETH', 2000);
+    expect(aggregator.getPrice('wstETH')?.priceUsd).toBeCloseTo(2400, 8);
+    expect(aggregator.getPrice('wstETH')?.source).toBe('derived');
+
+    // Derived prices do not keep the fail-closed feed check open
+    binance.getStatus = pyth.getStatus = () => ({ connected: false, lastPriceAt: 0, priceCount: 0 });
+    expect(aggregator.areFeedsConnected()).toBe(false);
+    derivedPriceSource.clear();
+  });
+});
@@ -0,0 +1,69 @@
+import { LiquidationQueue, liquidationMetrics } from '../src/state/queue';
+
+describe('Liquidation Queue', () => {
+  it('should order by lowest HF, then highest expected profit', () => {
+    const queue = new LiquidationQueue();
+    queue.upsert('a', 1.05, 10);
+    queue.upsert('b', 0.98, 5);
+    queue.upsert('c', 0.98, 50);
+    queue.upsert('d', 1.02, 0);
+
+    expect(queue.toSortedArray().map(e => e.key)).toEqual(['c', 'b', 'd', 'a']);
+    expect(queue.peek()!.key).toBe('c');
+  });
+
+  it('should re-prioritize and remove by key', () => {
+    const queue = new LiquidationQueue();
+    for (let i = 0; i < 20; i++) {
+      queue.upsert(`b${i}`, 1 + i / 100, 0);
+    }
+
+    queue.upsert('b15', 0.9, 0);
+    expect(queue.peek()!.key).toBe('b15');
+
+    queue.remove('b15');
+    queue.remove('b0');
+    queue.remove('missing');
+    expect(queue.size()).toBe(18);
+    expect(queue.peek()!.key).toBe('b1');
+
+    const hfs = queue.toSortedArray().map(e => e.hf);
+    expect(hfs).toEqual([...hfs].sort((x, y) => x - y));
+  });
+
+  it('should return the top entries in priority order without a full sort', () => {
+    const queue = new LiquidationQueue();
+    for (let i = 0; i < 50; i++) {
+      queue.upsert(`b${i}`, 1 + ((i * 37) % 50) / 1000, i);
+    }
+
+    expect(queue.top(5)).toEqual(queue.toSortedArray().slice(0, 5));
+    expect(queue.top(100)).toEqual(queue.toSortedArray());
+    expect(queue.top(0)).toEqual([]);
+    expect(new LiquidationQueue().top(3)).toEqual([]);
+  });
+
+  it('should record execution latency once per LIQUIDATABLE transition', () => {
+    liquidationMetrics.clear();
+    liquidationMetrics.recordQueueDepth(7);
+    liquidationMetrics.recordExecution('0xabc', 1000, 1250);
+    liquidationMetrics.recordExecution('0xABC', 1000, 5000);
+
+    const summary = liquidationMetrics.getSummary();
+    expect(summary.queueDepth).toBe(7);
+    expect(summary.executions).toBe(1);
+    expect(summary.p50LatencyMs).toBe(250);
+  });
+
+  it('should keep dry runs out of the execution latency', () => {
+    liquidationMetrics.clear();
+    liquidationMetrics.recordDryRun('0xabc', 1000, 1100);
+    liquidationMetrics.recordExecution('0xabc', 1000, 1400);
+
+    const summary = liquidationMetrics.getSummary();
+    expect(summary.dryRuns).toBe(1);
+    expect(summary.p50DryRunLatencyMs).toBe(100);
+    expect(summary.executions).toBe(1);
+    expect(summary.p50LatencyMs).toBe(400);
+  });
+});
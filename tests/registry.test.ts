@@ -0,0 +1,96 @@
+import { borrowerRegistry } from '../src/state/registry';
+import { BorrowerState, CachedTransaction, createBorrower } from '../src/state/borrower';
+import { loadConfig } from '../src/config/env';
+
+const ETHER = 10n ** 18n;
+
+describe('Borrower Registry Asset Index', () => {
+  beforeAll(() => {
+    loadConfig();
+  });
+
+  beforeEach(() => {
+    borrowerRegistry.clear();
+  });
+
+  it('should find borrowers by collateral and debt asset', () => {
+    borrowerRegistry.addBorrower('0xAAA');
+    borrowerRegistry.addBorrower('0xBBB');
+    borrowerRegistry.updateBorrowerBalances('0xAAA',
+      [{ asset: 'WETH', amount: ETHER, valueUsd: 0 }],
+      [{ asset: 'USDC', amount: 1000n, valueUsd: 0 }]);
+    borrowerRegistry.updateBorrowerBalances('0xBBB',
+      [{ asset: 'cbETH', amount: ETHER, valueUsd: 0 }],
+      [{ asset: 'USDC', amount: 1000n, valueUsd: 0 }]);
+
+    expect(borrowerRegistry.getBorrowersByAsset('WETH').map(b => b.address)).toEqual(['0xAAA']);
+    expect(borrowerRegistry.getBorrowersByAsset('USDC')).toHaveLength(2);
+    expect(borrowerRegistry.getBorrowersByAsset('DAI')).toEqual([]);
+  });
+
+  it('should re-index when balances change', () => {
+    borrowerRegistry.addBorrower('0xAAA');
+    borrowerRegistry.updateBorrowerBalances('0xAAA', [{ asset: 'WETH', amount: ETHER, valueUsd: 0 }], []);
+    borrowerRegistry.updateBorrowerBalances('0xAAA', [{ asset: 'cbETH', amount: ETHER, valueUsd: 0 }], []);
+
+    expect(borrowerRegistry.getBorrowersByAsset('WETH')).toEqual([]);
+    expect(borrowerRegistry.getBorrowersByAsset('cbETH')).toHaveLength(1);
+  });
+
+  it('should drop removed borrowers and index restored ones', () => {
+    borrowerRegistry.addBorrower('0xAAA');
+    borrowerRegistry.updateBorrowerBalances('0xAAA', [{ asset: 'WETH', amount: ETHER, valueUsd: 0 }], []);
+    borrowerRegistry.removeBorrower('0xaaa');
+    expect(borrowerRegistry.getBorrowersByAsset('WETH')).toEqual([]);
+
+    const restored = createBorrower('0xCCC');
+    restored.debtBalances = [{ asset: 'USDC', amount: 1000n, valueUsd: 0 }];
+    borrowerRegistry.restoreBorrowers([restored]);
+    expect(borrowerRegistry.getBorrowersByAsset('USDC').map(b => b.address)).toEqual(['0xCCC']);
+  });
+
+  it('should index CRITICAL and LIQUIDATABLE borrowers by asset', () => {
+    borrowerRegistry.addBorrower('0xAAA', BorrowerState.CRITICAL);
+    borrowerRegistry.addBorrower('0xBBB');
+    borrowerRegistry.updateBorrowerBalances('0xAAA',
+      [{ asset: 'WETH', amount: ETHER, valueUsd: 0 }],
+      [{ asset: 'USDC', amount: 1000n, valueUsd: 0 }]);
+    borrowerRegistry.updateBorrowerBalances('0xBBB',
+      [{ asset: 'WETH', amount: ETHER, valueUsd: 0 }],
+      [{ asset: 'USDC', amount: 1000n, valueUsd: 0 }]);
+
+    expect(borrowerRegistry.getCriticalBorrowersByAsset('WETH').map(b => b.address)).toEqual(['0xAAA']);
+    expect(borrowerRegistry.getCriticalBorrowersByAsset('USDC').map(b => b.address)).toEqual(['0xAAA']);
+
+    // HF transitions move borrowers in and out
+    borrowerRegistry.updateBorrowerHF('0xBBB', 0.99);
+    borrowerRegistry.updateBorrowerHF('0xAAA', 2.0);
+    expect(borrowerRegistry.getCriticalBorrowersByAsset('WETH').map(b => b.address)).toEqual(['0xBBB']);
+
+    // Balance changes re-index the critical set too
+    borrowerRegistry.updateBorrowerBalances('0xBBB', [{ asset: 'cbETH', amount: ETHER, valueUsd: 0 }], []);
+    expect(borrowerRegistry.getCriticalBorrowersByAsset('WETH')).toEqual([]);
+    expect(borrowerRegistry.getCriticalBorrowersByAsset('cbETH')).toHaveLength(1);
+
+    borrowerRegistry.removeBorrower('0xBBB');
+    expect(borrowerRegistry.getCriticalBorrowersByAsset('cbETH')).toEqual([]);
+  });
+
+  it('should re-rank borrowers when a prepared tx is cached or invalidated', () => {
+    borrowerRegistry.addBorrower('0xAAA');
+    borrowerRegistry.addBorrower('0xBBB');
+    borrowerRegistry.updateBorrowerHF('0xAAA', 1.02);
+    borrowerRegistry.updateBorrowerHF('0xBBB', 1.02);
+
+    // Same HF: the borrower with the higher expected profit comes first
+    borrowerRegistry.setCachedTx('0xBBB', { expectedProfitUsd: 50 } as CachedTransaction, 100);
+    expect(borrowerRegistry.getBorrowersByPriority(2).map(b => b.address)).toEqual(['0xBBB', '0xAAA']);
+    expect(borrowerRegistry.getBorrower('0xBBB')!.preparedBlockNumber).toBe(100);
+
+    borrowerRegistry.setCachedTx('0xAAA', { expectedProfitUsd: 80 } as CachedTransaction, 101);
+    expect(borrowerRegistry.getBorrowersByPriority(2).map(b => b.address)).toEqual(['0xAAA', '0xBBB']);
+
+    borrowerRegistry.invalidateCachedTx('0xAAA', 'test');
+    expect(borrowerRegistry.getBorrowersByPriority(2).map(b => b.address)).toEqual(['0xBBB', '0xAAA']);
+  });
+});
@@ -0,0 +1,216 @@
+import { decodeReserveConfiguration, reserveConfigCache } from '../src/aave/reserves';
+import { eModeCache } from '../src/aave/emode';
+import { calculateBorrowerHF, calculateHealthFactor, estimateLiquidation, PriceData } from '../src/hf/calc';
+import { BorrowerBalance, createBorrower } from '../src/state/borrower';
+
+// Build a configuration bitmap the same way ReserveConfiguration.sol packs it
+function encodeConfiguration(params: {
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number;
+  decimals: number;
+  active?: boolean;
+  frozen?: boolean;
+  paused?: boolean;
+  reserveFactor?: number;
+  liquidationProtocolFee?: number;
+}): bigint {
+  let data = BigInt(params.ltv);
+  data |= BigInt(params.liquidationThreshold) << 16n;
+  data |= BigInt(params.liquidationBonus) << 32n;
+  data |= BigInt(params.decimals) << 48n;
+  if (params.active) data |= 1n << 56n;
+  if (params.frozen) data |= 1n << 57n;
+  if (params.paused) data |= 1n << 60n;
+  data |= BigInt(params.reserveFactor || 0) << 64n;
+  data |= BigInt(params.liquidationProtocolFee || 0) << 152n;
+  return data;
+}
+
+describe('Reserve Configuration', () => {
+  afterEach(() => {
+    reserveConfigCache.clear();
+    eModeCache.clear();
+  });
+
+  describe('decodeReserveConfiguration', () => {
+    it('should decode risk parameters and flags', () => {
+      const data = encodeConfiguration({
+        ltv: 8000,
+        liquidationThreshold: 8300,
+        liquidationBonus: 10500,
+        decimals: 18,
+        active: true,
+        reserveFactor: 1500,
+        liquidationProtocolFee: 1000
+      });
+
+      const decoded = decodeReserveConfiguration(data);
+
+      expect(decoded.ltv).toBeCloseTo(0.80, 6);
+      expect(decoded.liquidationThreshold).toBeCloseTo(0.83, 6);
+      expect(decoded.liquidationBonus).toBeCloseTo(0.05, 6);
+      expect(decoded.decimals).toBe(18);
+      expect(decoded.isActive).toBe(true);
+      expect(decoded.isFrozen).toBe(false);
+      expect(decoded.isPaused).toBe(false);
+      expect(decoded.reserveFactor).toBeCloseTo(0.15, 6);
+      expect(decoded.liquidationProtocolFee).toBeCloseTo(0.10, 6);
+    });
+
+    it('should decode frozen and paused flags', () => {
+      const data = encodeConfiguration({
+        ltv: 0,
+        liquidationThreshold: 0,
+        liquidationBonus: 0,
+        decimals: 6,
+        active: true,
+        frozen: true,
+        paused: true
+      });
+
+      const decoded = decodeReserveConfiguration(data);
+
+      expect(decoded.isFrozen).toBe(true);
+      expect(decoded.isPaused).toBe(true);
+      expect(decoded.liquidationBonus).toBe(0);
+      expect(decoded.decimals).toBe(6);
+    });
+  });
+
+  describe('HF calculation with cached reserve config', () => {
+    const prices = new Map<string, PriceData>([
+      ['WETH', { asset: 'WETH', priceUsd: 2000, timestamp: Date.now(), source: 'binance' }],
+      ['USDC', { asset: 'USDC', priceUsd: 1, timestamp: Date.now(), source: 'binance' }]
+    ]);
+
+    function cacheWeth(liquidationThreshold: number, liquidationBonus: number, paused: boolean = false): void {
+      reserveConfigCache.set({
+        ...decodeReserveConfiguration(encodeConfiguration({
+          ltv: 8000,
+          liquidationThreshold,
+          liquidationBonus,
+          decimals: 18,
+          active: true,
+          paused
+        })),
+        asset: 'WETH',
+        address: '0x4200000000000000000000000000000000000006',
+        id: 0,
+        updatedAt: Date.now()
+      });
+    }
+
+    it('should use the on-chain liquidation threshold', () => {
+      cacheWeth(8300, 10500);
+
+      const collateralBalances: BorrowerBalance[] = [
+        { asset: 'WETH', amount: BigInt(10 * 1e18), valueUsd: 0 }
+      ];
+      const debtBalances: BorrowerBalance[] = [
+        { asset: 'USDC', amount: BigInt(10000 * 1e6), valueUsd: 0 }
+      ];
+
+      const hf = calculateHealthFactor(collateralBalances, debtBalances, prices);
+
+      // (10 * 2000 * 0.83) / 10000 = 1.66
+      expect(hf).toBeCloseTo(1.66, 4);
+    });
+
+    it('should use the on-chain liquidation bonus', () => {
+      cacheWeth(8300, 10750);
+
+      const borrower = createBorrower('0x123');
+      borrower.collateralBalances = [
+        { asset: 'WETH', amount: BigInt(10 * 1e18), valueUsd: 0 }
+      ];
+      borrower.debtBalances = [
+        { asset: 'USDC', amount: BigInt(10000 * 1e6), valueUsd: 0 }
+      ];
+
+      const estimate = estimateLiquidation(borrower, prices, 'USDC', 'WETH');
+
+      expect(estimate).not.toBeNull();
+      expect(estimate!.liquidationBonus).toBeCloseTo(0.075, 6);
+      expect(estimate!.profitUsd).toBeCloseTo(375, 0);
+    });
+
+    it('should not estimate liquidation against a paused reserve', () => {
+      cacheWeth(8300, 10500, true);
+
+      const borrower = createBorrower('0x123');
+      borrower.collateralBalances = [
+        { asset: 'WETH', amount: BigInt(10 * 1e18), valueUsd: 0 }
+      ];
+      borrower.debtBalances = [
+        { asset: 'USDC', amount: BigInt(10000 * 1e6), valueUsd: 0 }
+      ];
+
+      expect(estimateLiquidation(borrower, prices, 'USDC', 'WETH')).toBeNull();
+    });
+  });
+
+  describe('E-Mode', () => {
+    const prices = new Map<string, PriceData>([
+      ['WETH', { asset: 'WETH', priceUsd: 2000, timestamp: Date.now(), source: 'binance' }],
+      ['USDC', { asset: 'USDC', priceUsd: 1, timestamp: Date.now(), source: 'binance' }]
+    ]);
+
+    beforeEach(() => {
+      reserveConfigCache.set({
+        ...decodeReserveConfiguration(encodeConfiguration({
+          ltv: 8000,
+          liquidationThreshold: 8300,
+          liquidationBonus: 10500,
+          decimals: 18,
+          active: true
+        })),
+        asset: 'WETH',
+        address: '0x4200000000000000000000000000000000000006',
+        id: 4,
+        updatedAt: Date.now()
+      });
+      eModeCache.set({
+        id: 1,
+        label: 'ETH correlated',
+        ltv: 0.90,
+        liquidationThreshold: 0.93,
+        liquidationBonus: 0.01,
+        collateralBitmap: 1n << 4n,
+        updatedAt: Date.now()
+      });
+    });
+
+    function createWethBorrower(eModeCategory: number) {
+      const borrower = createBorrower('0x123');
+      borrower.eModeCategory = eModeCategory;
+      borrower.collateralBalances = [
+        { asset: 'WETH', amount: BigInt(10 * 1e18), valueUsd: 0 }
+      ];
+      borrower.debtBalances = [
+        { asset: 'USDC', amount: BigInt(10000 * 1e6), valueUsd: 0 }
+      ];
+      return borrower;
+    }
+
+    it('should use the category threshold and bonus for E-Mode collateral', () => {
+      const borrower = createWethBorrower(1);
+
+      // (10 * 2000 * 0.93) / 10000 = 1.86
+      expect(calculateBorrowerHF(borrower, prices)).toBeCloseTo(1.86, 4);
+
+      const estimate = estimateLiquidation(borrower, prices, 'USDC', 'WETH');
+      expect(estimate!.liquidationBonus).toBeCloseTo(0.01, 6);
+    });
+
+    it('should fall back to reserve parameters outside the category', () => {
+      const borrower = createWethBorrower(0);
+      expect(calculateBorrowerHF(borrower, prices)).toBeCloseTo(1.66, 4);
+
+      // Category that does not list WETH as collateral
+      eModeCache.set({ ...eModeCache.get(1)!, id: 2, collateralBitmap: 1n });
+      const otherCategory = createWethBorrower(2);
+      expect(calculateBorrowerHF(otherCategory, prices)).toBeCloseTo(1.66, 4);
+    });
+  });
+});
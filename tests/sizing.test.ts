@@ -0,0 +1,107 @@
+import { sizeLiquidation, LiquidationSizingParams, MIN_LEFTOVER_BASE } from '../src/hf/sizing';
+import { WAD } from '../src/hf/math';
+
+const USDC = 10n ** 6n;
+const ETHER = 10n ** 18n;
+
+// WETH collateral ($2,000) against USDC debt ($1), 5% bonus
+function params(overrides: Partial<LiquidationSizingParams>): LiquidationSizingParams {
+  return {
+    healthFactor: (WAD * 98n) / 100n,
+    totalDebtBase: 10000n * 10n ** 8n,
+    debtBalance: 10000n * USDC,
+    debtDecimals: 6,
+    debtPriceBase: 10n ** 8n,
+    collateralBalance: 10n * ETHER,
+    collateralDecimals: 18,
+    collateralPriceBase: 2000n * 10n ** 8n,
+    liquidationBonus: 10500n,
+    ...overrides
+  };
+}
+
+describe('Liquidation Sizing', () => {
+  it('should apply 50% close factor above HF 0.95 for large positions', () => {
+    const size = sizeLiquidation(params({}));
+
+    expect(size).not.toBeNull();
+    expect(size!.closeFactor).toBe(5000n);
+    expect(size!.debtToCover).toBe(5000n * USDC);
+    // 5,000 USDC * 1.05 / 2,000 = 2.625 WETH
+    expect(size!.collateralAmount).toBe(2625n * ETHER / 1000n);
+  });
+
+  it('should apply 100% close factor below HF 0.95', () => {
+    const size = sizeLiquidation(params({
+      healthFactor: (WAD * 94n) / 100n,
+      collateralBalance: 20n * ETHER
+    }));
+
+    expect(size!.closeFactor).toBe(10000n);
+    expect(size!.debtToCover).toBe(10000n * USDC);
+  });
+
+  it('should apply 100% close factor for positions below $2,000', () => {
+    const size = sizeLiquidation(params({
+      totalDebtBase: 1500n * 10n ** 8n,
+      debtBalance: 1500n * USDC
+    }));
+
+    expect(size!.closeFactor).toBe(10000n);
+    expect(size!.debtToCover).toBe(1500n * USDC);
+  });
+
+  it('should cap by available collateral and seize all of it', () => {
+    // 1 WETH ($2,000) cannot cover 100% of 10,000 USDC debt
+    const size = sizeLiquidation(params({
+      healthFactor: (WAD * 50n) / 100n,
+      collateralBalance: ETHER
+    }));
+
+    expect(size!.collateralAmount).toBe(ETHER);
+    // 2,000 / 1.05 = 1,904.761905 USDC
+    expect(size!.debtToCover).toBe(1904761905n);
+  });
+
+  it('should leave at least $1,000 of debt when not repaying all of it', () => {
+    // Reserve debt $2,100 out of $4,000 total: 50% close factor allows $2,000,
+    // which would leave $100 of dust
+    const size = sizeLiquidation(params({
+      totalDebtBase: 4000n * 10n ** 8n,
+      debtBalance: 2100n * USDC
+    }));
+
+    expect(size).not.toBeNull();
+    const leftoverBase = (2100n * USDC - size!.debtToCover) * 10n ** 8n / USDC;
+    expect(leftoverBase >= MIN_LEFTOVER_BASE).toBe(true);
+    expect(size!.debtToCover).toBe(1100n * USDC);
+  });
+
+  it('should leave at least $1,000 of collateral when not seizing all of it', () => {
+    // 1.5 WETH ($3,000) collateral; 50% of $5,000 debt would seize $2,625
+    const size = sizeLiquidation(params({
+      totalDebtBase: 5000n * 10n ** 8n,
+      debtBalance: 5000n * USDC,
+      collateralBalance: 15n * ETHER / 10n
+    }));
+
+    expect(size).not.toBeNull();
+    const leftoverBase = (15n * ETHER / 10n - size!.collateralAmount) * 2000n * 10n ** 8n / ETHER;
+    expect(leftoverBase >= MIN_LEFTOVER_BASE).toBe(true);
+    expect(size!.debtToCover < 2500n * USDC).toBe(true);
+  });
+
+  it('should deduct the protocol fee from the bonus collateral', () => {
+    // Bonus part of 2.625 WETH is 0.125 WETH; 10% of it goes to the treasury
+    const size = sizeLiquidation(params({ liquidationProtocolFee: 1000n }));
+
+    expect(size!.protocolFeeAmount).toBe(125n * ETHER / 10000n);
+    expect(size!.collateralAmount).toBe(26125n * ETHER / 10000n);
+    expect(size!.debtToCover).toBe(5000n * USDC);
+  });
+
+  it('should return null for missing balances or prices', () => {
+    expect(sizeLiquidation(params({ debtBalance: 0n }))).toBeNull();
+    expect(sizeLiquidation(params({ collateralPriceBase: 0n }))).toBeNull();
+  });
+});
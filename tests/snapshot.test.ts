@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BorrowerState, createBorrower, updateBorrowerState } from '../src/state/borrower';
+import { SnapshotStore, serializeBorrower, deserializeBorrower } from '../src/state/snapshot';
+
+function borrowerWithPositions() {
+  const borrower = createBorrower('0xAbC', BorrowerState.SAFE, true);
+  borrower.collateralBalances = [{ asset: 'WETH', amount: 10n ** 18n, scaledAmount: 99n * 10n ** 16n, valueUsd: 2000 }];
+  borrower.debtBalances = [{ asset: 'USDC', amount: 1500n * 10n ** 6n, valueUsd: 1500 }];
+  borrower.eModeCategory = 1;
+  borrower.predictedHF = 1.08;
+  borrower.lastSkipReason = 'profit_floor';
+  updateBorrowerState(borrower, BorrowerState.WATCH, 1.08);
+  return borrower;
+}
+
+describe('Registry Snapshot', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip balances, state history and skip reasons', () => {
+    const borrower = borrowerWithPositions();
+    const restored = deserializeBorrower(serializeBorrower(borrower));
+
+    expect(restored.collateralBalances).toEqual(borrower.collateralBalances);
+    expect(restored.debtBalances[0].amount).toBe(1500n * 10n ** 6n);
+    expect(restored.debtBalances[0].scaledAmount).toBeUndefined();
+    expect(restored.state).toBe(BorrowerState.WATCH);
+    expect(restored.lastSkipReason).toBe('profit_floor');
+    // Initial history entry has HF Infinity, which JSON cannot represent
+    expect(restored.stateHistory[0].hf).toBe(Infinity);
+    expect(restored.oracleHF).toBe(Infinity);
+    expect(restored.stateHistory).toHaveLength(2);
+  });
+
+  it('should save and load borrowers with the last processed block', async () => {
+    const file = path.join(dir, 'registry.jsonl');
+    const borrowers = [borrowerWithPositions(), createBorrower('0xdef')];
+
+    expect(await new SnapshotStore(file).save(borrowers, 12345)).toBe(true);
+    const snapshot = new SnapshotStore(file).load();
+
+    expect(snapshot).not.toBeNull();
+    expect(snapshot!.lastProcessedBlock).toBe(12345);
+    expect(snapshot!.borrowers.map(b => b.address)).toEqual(['0xAbC', '0xdef']);
+  });
+
+  it('should ignore a truncated snapshot', async () => {
+    const file = path.join(dir, 'registry.jsonl');
+    await new SnapshotStore(file).save([borrowerWithPositions(), createBorrower('0xdef')], 1);
+
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    fs.writeFileSync(file, lines.slice(0, 2).join('\n') + '\n');
+
+    expect(new SnapshotStore(file).load()).toBeNull();
+  });
+
+  it('should return null when no snapshot exists', () => {
+    expect(new SnapshotStore(path.join(dir, 'missing.jsonl')).load()).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { ethers } from 'ethers';
+import { oracleSources, OracleSource } from '../src/aave/sources';
+import { loadConfig } from '../src/config/env';
+
+// Multicall reads answered from a table keyed by "target:method" (missing = reverted)
+const reads: Map<string, unknown> = new Map();
+jest.mock('../src/rpc/multicall', () => ({
+  getMulticall: () => ({
+    call: async (target: string, _iface: unknown, method: string) => reads.get(`${target.toLowerCase()}:${method}`) ?? null
+  })
+}));
+
+const SOURCE = '0x0000000000000000000000000000000000000a01';
+const BASE_FEED = '0x0000000000000000000000000000000000000a02';
+const AGGREGATOR = '0x0000000000000000000000000000000000000a03';
+const provider = {} as ethers.JsonRpcProvider;
+
+function answer(target: string, method: string, value: unknown): void {
+  reads.set(`${target.toLowerCase()}:${method}`, value);
+}
+
+// AaveOracle points WETH at SOURCE
+function pointOracleAt(source: string): void {
+  answer(process.env.AAVE_ORACLE_ADDRESS!, 'getSourceOfAsset', source);
+}
+
+function createSource(asset: string, overrides: Partial<OracleSource> = {}): OracleSource {
+  return {
+    asset,
+    source: '0x0000000000000000000000000000000000000001',
+    kind: 'chainlink',
+    feed: '0x0000000000000000000000000000000000000001',
+    aggregator: '0x00000000000000000000000000000000000000aA',
+    decimals: 8,
+    description: `${asset} / USD`,
+    heartbeatSec: 86400,
+    resolvedAt: Date.now(),
+    ...overrides
+  };
+}
+
+describe('Oracle Source Registry', () => {
+  beforeAll(() => {
+    process.env.AAVE_ORACLE_ADDRESS = '0x0000000000000000000000000000000000000a00';
+    loadConfig();
+  });
+
+  afterEach(() => {
+    oracleSources.clear();
+    reads.clear();
+  });
+
+  it('should look up sources by asset', () => {
+    oracleSources.set(createSource('WETH'));
+
+    expect(oracleSources.get('WETH')?.description).toBe('WETH / USD');
+    expect(oracleSources.get('USDC')).toBeUndefined();
+  });
+
+  it('should find every asset priced through an aggregator', () => {
+    oracleSources.set(createSource('WETH'));
+    // CAPO source on the same ETH / USD base feed
+    oracleSources.set(createSource('wstETH', {
+      source: '0x0000000000000000000000000000000000000002',
+      kind: 'capo',
+      ratioProvider: '0x0000000000000000000000000000000000000003'
+    }));
+    oracleSources.set(createSource('USDC', { aggregator: '0x00000000000000000000000000000000000000bB' }));
+
+    expect(oracleSources.getAssetsByAggregator('0x00000000000000000000000000000000000000AA')).toEqual(['WETH', 'wstETH']);
+    expect(oracleSources.getAll()).toHaveLength(3);
+  });
+
+  it('should classify Chainlink, CAPO and custom sources', async () => {
+    pointOracleAt(SOURCE);
+    answer(SOURCE, 'decimals', 8n);
+    answer(SOURCE, 'description', 'ETH / USD');
+    const chainlink = await oracleSources.refreshAsset(provider, 'WETH');
+    expect(chainlink).toMatchObject({ kind: 'chainlink', feed: SOURCE, aggregator: SOURCE, decimals: 8 });
+
+    answer(SOURCE, 'BASE_TO_USD_AGGREGATOR', BASE_FEED);
+    answer(SOURCE, 'RATIO_PROVIDER', AGGREGATOR);
+    const capo = await oracleSources.refreshAsset(provider, 'WETH');
+    expect(capo).toMatchObject({ kind: 'capo', feed: BASE_FEED, aggregator: BASE_FEED, ratioProvider: AGGREGATOR });
+
+    reads.clear();
+    pointOracleAt(SOURCE);
+    const custom = await oracleSources.refreshAsset(provider, 'WETH');
+    expect(custom).toMatchObject({ kind: 'unknown', aggregator: SOURCE, decimals: null, description: '' });
+    expect(oracleSources.get('WETH')).toBe(custom);
+  });
+
+  it('should skip assets without an oracle source', async () => {
+    pointOracleAt(ethers.ZeroAddress);
+    expect(await oracleSources.refreshAsset(provider, 'WETH')).toBeUndefined();
+    expect(oracleSources.get('WETH')).toBeUndefined();
+  });
+
+  it('should follow proxy hops to the aggregator', async () => {
+    pointOracleAt(SOURCE);
+    answer(SOURCE, 'decimals', 8n);
+    answer(SOURCE, 'aggregator', BASE_FEED);
+    answer(BASE_FEED, 'aggregator', AGGREGATOR);
+
+    // Stops at a contract without aggregator()
+    expect((await oracleSources.refreshAsset(provider, 'WETH'))!.aggregator).toBe(AGGREGATOR);
+
+    // Stops at a self-pointing aggregator
+    answer(AGGREGATOR, 'aggregator', AGGREGATOR);
+    expect((await oracleSources.refreshAsset(provider, 'WETH'))!.aggregator).toBe(AGGREGATOR);
+
+    // Stops before a zero-address aggregator
+    answer(BASE_FEED, 'aggregator', ethers.ZeroAddress);
+    expect((await oracleSources.refreshAsset(provider, 'WETH'))!.aggregator).toBe(BASE_FEED);
+  });
+
+  it('should stop following proxies after the hop limit', async () => {
+    const chain = [SOURCE, BASE_FEED, AGGREGATOR, '0x0000000000000000000000000000000000000a04', '0x0000000000000000000000000000000000000a05'];
+    pointOracleAt(SOURCE);
+    answer(SOURCE, 'decimals', 8n);
+    for (let i = 0; i < chain.length - 1; i++) {
+      answer(chain[i], 'aggregator', chain[i + 1]);
+    }
+
+    expect((await oracleSources.refreshAsset(provider, 'WETH'))!.aggregator).toBe(chain[3]);
+  });
+
+  it('should report assets whose source or aggregator changed on refresh', async () => {
+    pointOracleAt(SOURCE);
+    answer(SOURCE, 'decimals', 8n);
+    answer(SOURCE, 'aggregator', AGGREGATOR);
+    expect(await oracleSources.refresh(provider, ['WETH'])).toEqual(['WETH']);
+
+    // Unchanged
+    expect(await oracleSources.refresh(provider, ['WETH'])).toEqual([]);
+
+    // Chainlink swapped the aggregator behind the proxy
+    answer(SOURCE, 'aggregator', BASE_FEED);
+    expect(await oracleSources.refresh(provider, ['WETH'])).toEqual(['WETH']);
+    expect(oracleSources.get('WETH')!.aggregator).toBe(BASE_FEED);
+
+    // A failed read keeps the last known source
+    reads.clear();
+    expect(await oracleSources.refresh(provider, ['WETH'])).toEqual([]);
+    expect(oracleSources.get('WETH')!.aggregator).toBe(BASE_FEED);
+  });
+
+  it('should be due for refresh after the interval', () => {
+    oracleSources.markRefreshed(100);
+
+    expect(oracleSources.isRefreshDue(149, 50)).toBe(false);
+    expect(oracleSources.isRefreshDue(150, 50)).toBe(true);
+    expect(oracleSources.isRefreshDue(1000, 0)).toBe(false);
+  });
+});
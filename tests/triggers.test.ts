@@ -0,0 +1,97 @@
+import { computeTriggerPrices, getLiquidationDistance, triggerIndex } from '../src/hf/triggers';
+import { calculateBorrowerHF, PriceData } from '../src/hf/calc';
+import { createBorrower } from '../src/state/borrower';
+
+function priceMap(weth: number, usdc: number = 1): Map<string, PriceData> {
+  return new Map<string, PriceData>([
+    ['WETH', { asset: 'WETH', priceUsd: weth, timestamp: Date.now(), source: 'binance' }],
+    ['USDC', { asset: 'USDC', priceUsd: usdc, timestamp: Date.now(), source: 'binance' }]
+  ]);
+}
+
+// 1 WETH (LT 82.5%) against 1,500 USDC: HF 1.1 at $2,000
+function createPosition(address: string = '0xAAA') {
+  const borrower = createBorrower(address, undefined, true);
+  borrower.collateralBalances = [{ asset: 'WETH', amount: 10n ** 18n, valueUsd: 0 }];
+  borrower.debtBalances = [{ asset: 'USDC', amount: 1500n * 10n ** 6n, valueUsd: 0 }];
+  return borrower;
+}
+
+describe('Liquidation Trigger Prices', () => {
+  beforeEach(() => {
+    triggerIndex.clear();
+  });
+
+  it('should solve the collateral price at which HF reaches each threshold', () => {
+    const triggers = computeTriggerPrices(createPosition(), priceMap(2000), [1.0]);
+    const weth = triggers.find(t => t.asset === 'WETH')!;
+
+    // 1,500 / 0.825 = 1,818.18
+    expect(weth.direction).toBe('below');
+    expect(weth.price).toBeCloseTo(1818.18, 2);
+    // HF at the trigger price is the threshold
+    expect(calculateBorrowerHF(createPosition(), priceMap(weth.price))).toBeCloseTo(1.0, 4);
+  });
+
+  it('should solve the debt price at which HF reaches the threshold', () => {
+    const triggers = computeTriggerPrices(createPosition(), priceMap(2000), [1.0]);
+    const usdc = triggers.find(t => t.asset === 'USDC')!;
+
+    // Debt worth 1,650 liquidates: USDC at $1.10
+    expect(usdc.direction).toBe('above');
+    expect(usdc.price).toBeCloseTo(1.1, 6);
+  });
+
+  it('should report the distance to liquidation', () => {
+    const prices = priceMap(2000);
+    const distance = getLiquidationDistance(computeTriggerPrices(createPosition(), prices, [1.0]), prices, 1.0);
+
+    // WETH needs to fall 9.09%, USDC would need to rise 10%
+    expect(distance!.asset).toBe('WETH');
+    expect(distance!.distance).toBeCloseTo(0.0909, 4);
+  });
+
+  it('should only return borrowers whose trigger was crossed', () => {
+    const prices = priceMap(2000);
+    const near = createPosition('0xNEAR');
+    const far = createPosition('0xFAR');
+    far.debtBalances = [{ asset: 'USDC', amount: 500n * 10n ** 6n, valueUsd: 0 }];
+
+    triggerIndex.updateBorrower(near, prices, [1.1, 1.04, 1.0], 1.0);
+    triggerIndex.updateBorrower(far, prices, [1.1, 1.04, 1.0], 1.0);
+
+    // First tick has no reference price
+    expect(triggerIndex.getCrossedBorrowers('WETH', 2000)).toBeNull();
+    // $2,000 -> $1,850 crosses near's hfCritical trigger ($1,890.91)
+    expect(triggerIndex.getCrossedBorrowers('WETH', 1850)).toEqual(['0xnear']);
+    expect(triggerIndex.getCrossedBorrowers('WETH', 1845)).toEqual([]);
+
+    triggerIndex.removeBorrower('0xNEAR');
+    expect(triggerIndex.getCrossedBorrowers('WETH', 2100)).toEqual([]);
+  });
+
+  it('should keep crossed ranges exact through many updates and removals', () => {
+    const prices = priceMap(2000);
+    const positions = Array.from({ length: 200 }, (_, i) => {
+      const borrower = createPosition(`0x${i.toString(16)}`);
+      borrower.debtBalances[0].amount = BigInt(1000 + i * 3) * 10n ** 6n;
+      return borrower;
+    });
+    for (const borrower of positions) triggerIndex.updateBorrower(borrower, prices, [1.0], 1.0);
+    // Re-index half and drop a quarter
+    for (const borrower of positions.slice(0, 100)) triggerIndex.updateBorrower(borrower, prices, [1.0], 1.0);
+    for (const borrower of positions.slice(150)) triggerIndex.removeBorrower(borrower.address);
+
+    const expected = positions.slice(0, 150)
+      .filter(b => {
+        const trigger = triggerIndex.getTriggers(b.address).find(t => t.asset === 'WETH')!;
+        return trigger.price >= 1400 && trigger.price <= 1500;
+      })
+      .map(b => b.address.toLowerCase())
+      .sort();
+
+    expect(triggerIndex.getCrossedBorrowers('WETH', 1500)).toBeNull();
+    expect(triggerIndex.getCrossedBorrowers('WETH', 1400)!.sort()).toEqual(expected);
+    expect(expected.length).toBeGreaterThan(0);
+  });
+});